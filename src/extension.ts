@@ -1,8 +1,22 @@
 import * as vscode from 'vscode';
-import { BladeVarInfo, listControllerFiles, parseViewVariablesFromController, inferTypeProperties, isValidEnumClass, isTraditionalEnumClass } from './parsing/scan-controller';
+import { BladeVarInfo, ModelMemberNotes, listControllerFiles, parseViewVariablesFromController, inferTypeProperties, isValidEnumClass, parseClassMethodNames, parseModelMemberNotes, isTraditionalEnumClass, matchesBladeUri, resolvePropertyChain, getVariableTypeContext } from './parsing/scan-controller';
+import { listProviderFiles, parseSharedViewVariables } from './parsing/scan-providers';
+import { listRouteFiles, parseViewVariablesFromRoutes } from './parsing/scan-routes';
+import { listComponentFiles, parseComponentVariables } from './parsing/scan-components';
+import { listLivewireFiles, parseLivewireVariables } from './parsing/scan-livewire';
+import { listMailFiles, parseMailVariables } from './parsing/scan-mail';
+import { listBladeFiles, parseAnonymousComponentVariables, inferPropTypesFromCallSites } from './parsing/scan-anonymous-components';
+import { SessionFlashInfo, parseSessionFlashFromController, getSessionKeyType } from './parsing/scan-session';
+import { parseBladeInjections, parseBladeVarAnnotations } from './parsing/scan-blade-annotations';
+import { SESSION_PATTERNS } from './parsing/php-patterns';
+import { clearClassIndex } from './parsing/php-class-index';
+import { getIterableItemType, resolveClassFilePath } from './parsing/php-class';
+import { clearMigrationTables } from './parsing/php-migrations';
+import { clearContainerBindings } from './parsing/php-container';
 
 let phpWasm: any = null;
 let allBladeVarInfos: BladeVarInfo[] = [];
+let allSessionFlashInfos: SessionFlashInfo[] = [];
 let phpWasmReady = false;
 
 
@@ -67,6 +81,20 @@ export async function activate(context: vscode.ExtensionContext) {
 			'-', '>'
 		);
 
+		// Register completion provider for flashed session keys (triggered inside session('...'))
+		const sessionKeyCompletionProvider = vscode.languages.registerCompletionItemProvider(
+			[
+				{ scheme: 'file', language: 'blade' },
+				{ scheme: 'file', pattern: '**/*.blade.php' }
+			],
+			{
+				provideCompletionItems(document, position) {
+					return provideSessionKeyCompletionItems(document, position);
+				}
+			},
+			"'", '"'
+		);
+
 		// Register refresh command
 		const refreshCommand = vscode.commands.registerCommand('laravel-blade-vars-bridge.refreshVariables', async () => {
 			vscode.window.showInformationMessage('Updating variable information...');
@@ -82,7 +110,7 @@ export async function activate(context: vscode.ExtensionContext) {
 		statusBarItem.show();
 
 		// File watcher for auto-refresh
-		const watcher = vscode.workspace.createFileSystemWatcher('{**/*.php,**/*.blade.php}');
+		const watcher = vscode.workspace.createFileSystemWatcher('{**/*.php,**/*.blade.php,composer.json}');
 		watcher.onDidChange(() => refreshVariableInformation(outputChannel));
 		watcher.onDidCreate(() => refreshVariableInformation(outputChannel));
 		watcher.onDidDelete(() => refreshVariableInformation(outputChannel));
@@ -100,6 +128,7 @@ export async function activate(context: vscode.ExtensionContext) {
 			hoverProvider,
 			completionProvider,
 			propertyCompletionProvider,
+			sessionKeyCompletionProvider,
 			refreshCommand,
 			statusBarItem,
 			watcher,
@@ -137,7 +166,7 @@ async function initializePhpWasmSafely(outputChannel: vscode.OutputChannel) {
 				outputChannel.appendLine('PHP-WASM instance created successfully');
 				
 				// Test basic PHP parsing
-				const testResult = phpWasm.run('<?php echo "PHP-WASM is working"; ?>');
+				const testResult = await phpWasm.run('<?php echo "PHP-WASM is working"; ?>');
 				outputChannel.appendLine(`PHP-WASM test result: ${testResult.text}`);
 				
 				return phpWasm;
@@ -168,6 +197,10 @@ async function refreshVariableInformation(outputChannel: vscode.OutputChannel):
 	try {
 		const controllerPaths = vscode.workspace.getConfiguration('laravel-blade-vars-bridge').get('controllerPaths', ['app/Http/Controllers/**/*.php']);
 		allBladeVarInfos = [];
+		allSessionFlashInfos = [];
+		clearClassIndex();
+		clearMigrationTables();
+		clearContainerBindings();
 
 		if (phpWasmReady && phpWasm) {
 			outputChannel.appendLine('Using PHP-WASM for PHP parsing...');
@@ -184,13 +217,104 @@ async function refreshVariableInformation(outputChannel: vscode.OutputChannel):
 					const bladeVarInfos = await parseViewVariablesFromController(filePath.fsPath, phpWasm, phpWasmReady);
 					allBladeVarInfos = [...allBladeVarInfos, ...bladeVarInfos];
 					outputChannel.appendLine(`Parsed ${bladeVarInfos.length} variables from ${filePath.fsPath}`);
+
+					const sessionFlashInfos = parseSessionFlashFromController(filePath.fsPath);
+					allSessionFlashInfos = [...allSessionFlashInfos, ...sessionFlashInfos];
 				} catch (parseError) {
 					outputChannel.appendLine(`Error parsing ${filePath.fsPath}: ${parseError}`);
 				}
 			}
 		}
 
-		outputChannel.appendLine(`Total processed: ${allBladeVarInfos.length} blade variables`);
+		// Route::view() definitions pass data without a controller
+		const routePaths = vscode.workspace.getConfiguration('laravel-blade-vars-bridge').get('routePaths', ['routes/**/*.php']);
+
+		for (const routePath of routePaths) {
+			const routeFiles = await listRouteFiles(routePath);
+			outputChannel.appendLine(`Found ${routeFiles.length} route files in ${routePath}`);
+
+			for (const filePath of routeFiles) {
+				try {
+					const bladeVarInfos = parseViewVariablesFromRoutes(filePath.fsPath);
+					allBladeVarInfos = [...allBladeVarInfos, ...bladeVarInfos];
+					outputChannel.appendLine(`Parsed ${bladeVarInfos.length} variables from ${filePath.fsPath}`);
+				} catch (parseError) {
+					outputChannel.appendLine(`Error parsing ${filePath.fsPath}: ${parseError}`);
+				}
+			}
+		}
+
+		// Class-based Blade components expose their public members to the component view
+		const componentFiles = await listComponentFiles();
+		outputChannel.appendLine(`Found ${componentFiles.length} component classes`);
+
+		for (const filePath of componentFiles) {
+			try {
+				const bladeVarInfos = parseComponentVariables(filePath.fsPath);
+				allBladeVarInfos = [...allBladeVarInfos, ...bladeVarInfos];
+				outputChannel.appendLine(`Parsed ${bladeVarInfos.length} component variables from ${filePath.fsPath}`);
+			} catch (parseError) {
+				outputChannel.appendLine(`Error parsing ${filePath.fsPath}: ${parseError}`);
+			}
+		}
+
+		// Shared variables and view composers registered in service providers
+		const providerFiles = await listProviderFiles();
+		outputChannel.appendLine(`Found ${providerFiles.length} service provider files`);
+
+		for (const filePath of providerFiles) {
+			try {
+				const bladeVarInfos = parseSharedViewVariables(filePath.fsPath);
+				allBladeVarInfos = [...allBladeVarInfos, ...bladeVarInfos];
+				outputChannel.appendLine(`Parsed ${bladeVarInfos.length} shared variables from ${filePath.fsPath}`);
+			} catch (parseError) {
+				outputChannel.appendLine(`Error parsing ${filePath.fsPath}: ${parseError}`);
+			}
+		}
+
+		// Livewire components expose public and computed properties to their views
+		const livewireFiles = await listLivewireFiles();
+		outputChannel.appendLine(`Found ${livewireFiles.length} Livewire components`);
+
+		for (const filePath of livewireFiles) {
+			try {
+				const bladeVarInfos = parseLivewireVariables(filePath.fsPath);
+				allBladeVarInfos = [...allBladeVarInfos, ...bladeVarInfos];
+				outputChannel.appendLine(`Parsed ${bladeVarInfos.length} Livewire variables from ${filePath.fsPath}`);
+			} catch (parseError) {
+				outputChannel.appendLine(`Error parsing ${filePath.fsPath}: ${parseError}`);
+			}
+		}
+
+		// Mailables and mail notifications pass data to email templates
+		const mailFiles = await listMailFiles();
+		outputChannel.appendLine(`Found ${mailFiles.length} Mailable and Notification classes`);
+
+		for (const filePath of mailFiles) {
+			try {
+				const bladeVarInfos = parseMailVariables(filePath.fsPath);
+				allBladeVarInfos = [...allBladeVarInfos, ...bladeVarInfos];
+				outputChannel.appendLine(`Parsed ${bladeVarInfos.length} mail variables from ${filePath.fsPath}`);
+			} catch (parseError) {
+				outputChannel.appendLine(`Error parsing ${filePath.fsPath}: ${parseError}`);
+			}
+		}
+
+		// Anonymous components declare their inputs with @props/@aware; call sites refine untyped props
+		const bladeFiles = await listBladeFiles();
+		const componentViewFiles = bladeFiles.filter((uri) => /[\\/]resources[\\/]views[\\/]components[\\/]/.test(uri.fsPath));
+		let anonymousComponentVarInfos: BladeVarInfo[] = [];
+
+		for (const filePath of componentViewFiles) {
+			const bladeVarInfos = parseAnonymousComponentVariables(filePath.fsPath);
+			anonymousComponentVarInfos = [...anonymousComponentVarInfos, ...bladeVarInfos];
+		}
+
+		inferPropTypesFromCallSites(anonymousComponentVarInfos, allBladeVarInfos, bladeFiles.map((uri) => uri.fsPath));
+		allBladeVarInfos = [...allBladeVarInfos, ...anonymousComponentVarInfos];
+		outputChannel.appendLine(`Parsed ${anonymousComponentVarInfos.length} variables from ${componentViewFiles.length} component views`);
+
+		outputChannel.appendLine(`Total processed: ${allBladeVarInfos.length} blade variables, ${allSessionFlashInfos.length} flashed session keys`);
 	} catch (error) {
 		outputChannel.appendLine(`Error refreshing variable information: ${error}`);
 		console.error('Error refreshing variable information:', error);
@@ -205,6 +329,12 @@ function provideHover(document: vscode.TextDocument, position: vscode.Position):
 	const lineText = line.text;
 	const character = position.character;
 	
+	// Flashed session keys: session('status'), @session('status')
+	const sessionKeyHover = provideSessionKeyHover(lineText, position);
+	if (sessionKeyHover) {
+		return sessionKeyHover;
+	}
+
 	// First, try to detect if we're hovering over a method chain
 	const methodChainHover = provideMethodChainHover(document, position, lineText, character);
 	if (methodChainHover) {
@@ -218,20 +348,21 @@ function provideHover(document: vscode.TextDocument, position: vscode.Position):
 	const varName = document.getText(wordRange);
 	const bladeUri = document.uri.toString();
 
-	const varInfo = allBladeVarInfos.find((v) => (v.jumpTargetUri === bladeUri && v.name === varName));
+	const varInfo = getDocumentVariables(document).find((v) => v.name === varName);
 	if (!varInfo) { 
-		// Check foreach variables
-		const foreachVars = getForeachVariablesAtPosition(document, position);
+		// Check foreach and @session block variables
+		const foreachVars = getBlockVariablesAtPosition(document, position);
 		const foreachVar = foreachVars.find((v) => v.name === varName);
 		if (foreachVar) {
-			const fileName = foreachVar.definedInPath?.match(/[^\/]+$/)?.[0] || "";
-			const filePath = getModelFilePath(foreachVar.type || 'mixed');
-			const isEnum = isEnumType(foreachVar.type || 'mixed');
+			const fileName = getDefinitionLabel(foreachVar);
+			const typeContext = getVariableTypeContext(foreachVar);
+			const filePath = getModelFilePath(foreachVar.type || 'mixed', typeContext);
+			const isEnum = isEnumType(foreachVar.type || 'mixed', typeContext);
 			
 			const markdownContent = new vscode.MarkdownString([
 				`**Variable:** \`${foreachVar.name}\``,
 				`**Type:** \`${foreachVar.type}\``,
-				`**Source:** [${fileName}](${foreachVar.definedInPath})`,
+				`**Source:** [${fileName}](${getDefinitionLink(foreachVar)})`,
 				filePath ? `**${isEnum ? 'Enum' : 'Model'}:** [${foreachVar.type}.php](${filePath})` : ''
 			].filter(Boolean).join('\n\n'));
 
@@ -240,13 +371,13 @@ function provideHover(document: vscode.TextDocument, position: vscode.Position):
 		}
 		
 		// Variable not found - try to find related controller from other variables
-		const relatedVar = allBladeVarInfos.find((v) => v.jumpTargetUri === bladeUri);
+		const relatedVar = allBladeVarInfos.find((v) => matchesBladeUri(v.jumpTargetUri, bladeUri));
 		if (relatedVar) {
-			const fileName = relatedVar.definedInPath?.match(/[^\/]+$/)?.[0] || "Controller";
+			const fileName = getDefinitionLabel(relatedVar) || "Controller";
 			const markdownContent = new vscode.MarkdownString([
 				`**Variable:** \`${varName}\``,
 				`**Status:** ⚠️ 型情報なし`,
-				`**Controller:** [${fileName}](${relatedVar.definedInPath})`
+				`**Controller:** [${fileName}](${getDefinitionLink(relatedVar)})`
 			].join('\n\n'));
 
 			markdownContent.isTrusted = true;
@@ -256,14 +387,24 @@ function provideHover(document: vscode.TextDocument, position: vscode.Position):
 		return null; 
 	}
 
-	const fileName = varInfo.definedInPath?.match(/[^\/]+$/)?.[0] || "";
-	const filePath = getModelFilePath(varInfo.type || 'mixed');
-	const isEnum = isEnumType(varInfo.type || 'mixed');
+	const fileName = getDefinitionLabel(varInfo);
+	const typeContext = getVariableTypeContext(varInfo);
+	const filePath = getModelFilePath(varInfo.type || 'mixed', typeContext);
+	const isEnum = isEnumType(varInfo.type || 'mixed', typeContext);
+
+	// Blade annotations win over the type inferred where the view is rendered
+	const isAnnotation = varInfo.source.includes('@var');
+	const overriddenVar = isAnnotation
+		? allBladeVarInfos.find((v) => matchesBladeUri(v.jumpTargetUri, bladeUri) && v.name === varName)
+		: undefined;
 
 	const markdownContent = new vscode.MarkdownString([
 		`**Variable:** \`${varInfo.name}\``,
 		`**Type:** \`${varInfo.type}\``,
-		`**Source:** [${fileName}](${varInfo.definedInPath})`,
+		varInfo.isCallable ? `**Callable:** \`${varInfo.name}()\` returns \`${varInfo.type}\`` : '',
+		varInfo.docComment ? `\`\`\`php\n${varInfo.docComment}\n\`\`\`` : '',
+		`**Source:** [${fileName}](${getDefinitionLink(varInfo)})${isAnnotation ? ` \`${varInfo.source}\`` : ''}`,
+		overriddenVar ? `**Overrides:** \`${overriddenVar.type}\` from [${getDefinitionLabel(overriddenVar)}](${getDefinitionLink(overriddenVar)})` : '',
 		filePath ? `**${isEnum ? 'Enum' : 'Model'}:** [${varInfo.type}.php](${filePath})` : ''
 	].filter(Boolean).join('\n\n'));
 
@@ -276,8 +417,6 @@ function provideHover(document: vscode.TextDocument, position: vscode.Position):
  * Provide hover information for method chains
  */
 function provideMethodChainHover(document: vscode.TextDocument, position: vscode.Position, lineText: string, character: number): vscode.Hover | null {
-	const bladeUri = document.uri.toString();
-	
 	// Find all method chains in the line
 	const chainRegex = /\$([a-zA-Z_][a-zA-Z0-9_]*)((?:->[a-zA-Z_][a-zA-Z0-9_]*(?:\(\))?)*)/g;
 	let chainMatch;
@@ -333,11 +472,11 @@ function provideMethodChainHover(document: vscode.TextDocument, position: vscode
 	if (segmentIndex === -1 || !wordRange) { return null; }
 	
 	// Get the initial variable
-	let varInfo = allBladeVarInfos.find((v) => v.jumpTargetUri === bladeUri && v.name === targetChain.varName);
+	let varInfo = getDocumentVariables(document).find((v) => v.name === targetChain.varName);
 	
 	if (!varInfo) {
-		// Check foreach variables
-		const foreachVars = getForeachVariablesAtPosition(document, position);
+		// Check foreach and @session block variables
+		const foreachVars = getBlockVariablesAtPosition(document, position);
 		varInfo = foreachVars.find((v) => v.name === targetChain.varName);
 	}
 	
@@ -350,29 +489,41 @@ function provideMethodChainHover(document: vscode.TextDocument, position: vscode
 		chainUpToHover = '->' + chainSegments.join('->');
 	}
 	
-	// Resolve the type at the hovered position
+	// Resolve the type at the hovered position, with the code its class names resolve against
 	let currentType = varInfo.type || 'mixed';
 	let propertyType = currentType;
+	let typeContext = getVariableTypeContext(varInfo);
+	let memberNotes: ModelMemberNotes | undefined;
 	
 	if (segmentIndex > 0) {
 		// Build the complete chain up to and including the hovered segment
 		const chainToHovered = segments.slice(1, segmentIndex + 1).join('->');
 		const fullChain = '->' + chainToHovered;
 		
+		// Accessor, $hidden and $appends notes when the hovered member belongs to a model
+		const ownerChain = segments.slice(1, segmentIndex).map(segment => '->' + segment).join('');
+		const owner = resolvePropertyChain(currentType, ownerChain, varInfo.properties, typeContext);
+		memberNotes = parseModelMemberNotes(extractBaseType(owner.type), owner.phpCode)[hoveredSegment.replace(/\(\)$/, '')];
+
 		// Resolve the complete type including the hovered property/method
-		propertyType = resolvePropertyChainType(varInfo.type || 'mixed', fullChain);
+		({ type: propertyType, phpCode: typeContext } = resolvePropertyChain(currentType, fullChain, varInfo.properties, typeContext));
 	}
 	
-	const fileName = varInfo.definedInPath?.match(/[^\/]+$/)?.[0] || "";
-	const filePath = getModelFilePath(extractBaseType(propertyType));
-	const isEnum = isEnumType(extractBaseType(propertyType));
+	const fileName = getDefinitionLabel(varInfo);
+	const filePath = getModelFilePath(extractBaseType(propertyType), typeContext);
+	const isEnum = isEnumType(extractBaseType(propertyType), typeContext);
 	
 	const displayChain = segmentIndex === 0 ? targetChain.varName : `${targetChain.varName}${chainUpToHover}`;
 	
 	const markdownContent = new vscode.MarkdownString([
 		`**Chain:** \`${displayChain}\``,
 		`**Current Type:** \`${propertyType}\``,
-		`**Base Variable:** \`${targetChain.varName}\` (from [${fileName}](${varInfo.definedInPath}))`,
+		segmentIndex === 0 && varInfo.isCallable ? `**Callable:** \`${targetChain.varName}()\` returns \`${propertyType}\`` : '',
+		`**Base Variable:** \`${targetChain.varName}\` (from [${fileName}](${getDefinitionLink(varInfo)}))`,
+		memberNotes?.accessor ? `**${memberNotes.accessor.startsWith('set') ? 'Mutator' : 'Accessor'}:** \`${memberNotes.accessor}\`` : '',
+		memberNotes?.appended ? '**Appended:** added to `toArray()` and JSON by `$appends`' : '',
+		memberNotes?.hidden ? '**Hidden:** left out of `toArray()` and JSON by `$hidden` / `$visible`' : '',
+		memberNotes?.declaredIn ? `**Declared in:** \`${memberNotes.declaredIn}\`` : '',
 		filePath ? `**${isEnum ? 'Enum' : 'Model'}:** [${extractBaseType(propertyType)}.php](${filePath})` : ''
 	].filter(Boolean).join('\n\n'));
 	
@@ -385,7 +536,6 @@ function provideMethodChainHover(document: vscode.TextDocument, position: vscode
  * Provide completion items for blade variables
  */
 function provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
-	const bladeUri = document.uri.toString();
 	const line = document.lineAt(position.line);
 	const linePrefix = line.text.slice(0, position.character);
 
@@ -393,17 +543,25 @@ function provideCompletionItems(document: vscode.TextDocument, position: vscode.
 	const variableMatch = linePrefix.match(phpVarRegex);
 	if (!variableMatch) { return []; }
 
-	const varInfos = allBladeVarInfos.filter((v) => v.jumpTargetUri === bladeUri);
-	const foreachVars = getForeachVariablesAtPosition(document, position);
+	const varInfos = getDocumentVariables(document);
+	const foreachVars = getBlockVariablesAtPosition(document, position);
 	
-	// Combine regular variables and foreach variables
+	// Combine regular variables and foreach/@session block variables
 	const allVars = [...varInfos, ...foreachVars];
 	
 	return allVars.map((varInfo) => {
-		const fileName = varInfo.definedInPath!.match(/[^\/]+$/)?.[0] || "";
-		const completionItem = new vscode.CompletionItem(varInfo.name.slice(1), vscode.CompletionItemKind.Variable);
+		const fileName = getDefinitionLabel(varInfo);
+		const completionItem = new vscode.CompletionItem(
+			varInfo.name.slice(1),
+			varInfo.isCallable ? vscode.CompletionItemKind.Method : vscode.CompletionItemKind.Variable
+		);
 		completionItem.detail = varInfo.type || 'mixed';
-		completionItem.documentation = new vscode.MarkdownString(`From: [${fileName}](${varInfo.definedInPath!})`);
+		completionItem.documentation = new vscode.MarkdownString(`From: [${fileName}](${getDefinitionLink(varInfo)})`);
+
+		// Public component methods are invoked like closures: $isSelected($value)
+		if (varInfo.isCallable) {
+			completionItem.insertText = new vscode.SnippetString(`${varInfo.name.slice(1)}($0)`);
+		}
 		return completionItem;
 	});
 }
@@ -412,7 +570,6 @@ function provideCompletionItems(document: vscode.TextDocument, position: vscode.
  * Provide completion items for variable properties and methods (triggered by ->)
  */
 function providePropertyCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
-	const bladeUri = document.uri.toString();
 	const line = document.lineAt(position.line);
 	const linePrefix = line.text.slice(0, position.character);
 
@@ -424,30 +581,39 @@ function providePropertyCompletionItems(document: vscode.TextDocument, position:
 	const propertyChain = chainMatch[2];
 	
 	// Get the initial variable
-	let varInfo = allBladeVarInfos.find((v) => v.jumpTargetUri === bladeUri && v.name === varName);
+	let varInfo = getDocumentVariables(document).find((v) => v.name === varName);
 	
 	if (!varInfo) {
-		// Check foreach variables at current position
-		const foreachVars = getForeachVariablesAtPosition(document, position);
+		// Check foreach and @session block variables at current position
+		const foreachVars = getBlockVariablesAtPosition(document, position);
 		varInfo = foreachVars.find((v) => v.name === varName);
 	}
 	
 	if (!varInfo) { return []; }
 
 	// Resolve the final type by following the property chain
-	const finalType = resolvePropertyChainType(varInfo.type || 'mixed', propertyChain);
-	const finalProperties = inferTypeProperties(finalType);
+	const { type: finalType, phpCode: typeContext } = resolvePropertyChain(
+		varInfo.type || 'mixed', propertyChain, varInfo.properties, getVariableTypeContext(varInfo)
+	);
+	const finalProperties = !propertyChain && varInfo.properties ? varInfo.properties : inferTypeProperties(finalType, typeContext);
 	
 	if (!finalProperties || Object.keys(finalProperties).length === 0) { return []; }
 
 	// Create completion items from type properties
 	const completionItems: vscode.CompletionItem[] = [];
+	// Read once per request, as both read the class file; model methods include those of its traits
+	// and parent classes, e.g. trashed() of SoftDeletes
+	const classMethodNames = parseClassMethodNames(extractBaseType(finalType), typeContext);
+	const memberNotes = parseModelMemberNotes(extractBaseType(finalType), typeContext);
 	
 	for (const [propertyName, propertyType] of Object.entries(finalProperties)) {
 		const currentType = finalType;
 		const isCollectionType = currentType === 'Collection' || currentType.startsWith('Collection<');
-		const isMethod = (isCollectionType || ['Carbon', 'Request'].includes(currentType)) && 
-						 !['id', 'length', 'count', 'year', 'month', 'day', 'hour', 'minute', 'second', 'timestamp', 'created_at', 'updated_at'].includes(propertyName);
+		const isMethod = ((isCollectionType || ['Carbon', 'CarbonImmutable', 'Request', 'ComponentAttributeBag', 'ComponentSlot'].includes(currentType)) && 
+						 !['id', 'length', 'count', 'year', 'month', 'day', 'hour', 'minute', 'second', 'timestamp', 'created_at', 'updated_at'].includes(propertyName)) ||
+						 (!propertyChain && !!varInfo.methods?.includes(propertyName)) ||
+						 classMethodNames.includes(propertyName) ||
+						 !!memberNotes[propertyName]?.isMethod;
 		
 		// Set priority based on property type
 		const eloquentMethods = ['save', 'delete', 'update', 'fresh', 'refresh', 'toArray', 'toJson', 
@@ -494,6 +660,131 @@ function providePropertyCompletionItems(document: vscode.TextDocument, position:
 	return completionItems;
 }
 
+/**
+ * Provide completion items for flashed session keys inside session('...')
+ */
+function provideSessionKeyCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+	const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+	if (!SESSION_PATTERNS.keyAccessPrefix.test(linePrefix)) { return []; }
+
+	const keys = [...new Set(allSessionFlashInfos.map((info) => info.key))];
+
+	return keys.map((key) => {
+		const completionItem = new vscode.CompletionItem(key, vscode.CompletionItemKind.Value);
+		completionItem.detail = getSessionKeyType(key, allSessionFlashInfos);
+		completionItem.documentation = getSessionKeyOrigins(key);
+		return completionItem;
+	});
+}
+
+/**
+ * Provide hover information for a flashed session key
+ */
+function provideSessionKeyHover(lineText: string, position: vscode.Position): vscode.Hover | null {
+	const keyPattern = new RegExp(SESSION_PATTERNS.keyAccess.source, 'g');
+	let match;
+
+	while ((match = keyPattern.exec(lineText)) !== null) {
+		const key = match[1];
+		const keyStart = match.index + match[0].length - key.length - 1;
+		const keyEnd = keyStart + key.length;
+
+		if (position.character >= keyStart && position.character <= keyEnd) {
+			if (!allSessionFlashInfos.some((info) => info.key === key)) { return null; }
+
+			const markdownContent = new vscode.MarkdownString([
+				`**Session Key:** \`${key}\``,
+				`**Type:** \`${getSessionKeyType(key, allSessionFlashInfos)}\``,
+				getSessionKeyOrigins(key).value
+			].join('\n\n'));
+
+			markdownContent.isTrusted = true;
+			return new vscode.Hover(markdownContent, new vscode.Range(position.line, keyStart, position.line, keyEnd));
+		}
+	}
+
+	return null;
+}
+
+/**
+ * List the controllers that flash a session key
+ */
+function getSessionKeyOrigins(key: string): vscode.MarkdownString {
+	const origins = allSessionFlashInfos
+		.filter((info) => info.key === key)
+		.map((info) => `- [${getDefinitionLabel(info)}](${getDefinitionLink(info)}) \`${info.type}\``);
+
+	const markdownContent = new vscode.MarkdownString(['**Flashed in:**', ...origins].join('\n'));
+	markdownContent.isTrusted = true;
+	return markdownContent;
+}
+
+/**
+ * Get the variables passed to a Blade view, with the @var annotations and @inject directives of the view
+ * itself taking precedence
+ */
+function getDocumentVariables(document: vscode.TextDocument): BladeVarInfo[] {
+	const bladeUri = document.uri.toString();
+	const documentVars = [
+		...parseBladeVarAnnotations(document.getText(), document.uri.fsPath),
+		...parseBladeInjections(document.getText(), document.uri.fsPath)
+	].filter((v, index, vars) => vars.findIndex((other) => other.name === v.name) === index);
+	const documentNames = new Set(documentVars.map((v) => v.name));
+
+	return [
+		...documentVars,
+		...allBladeVarInfos.filter((v) => matchesBladeUri(v.jumpTargetUri, bladeUri) && !documentNames.has(v.name))
+	];
+}
+
+/**
+ * Get foreach and @session block variables that are valid at the current position
+ */
+function getBlockVariablesAtPosition(document: vscode.TextDocument, position: vscode.Position): BladeVarInfo[] {
+	return [...getForeachVariablesAtPosition(document, position), ...getSessionVariablesAtPosition(document, position)];
+}
+
+/**
+ * Get the $value variable of the @session block enclosing the current position
+ */
+function getSessionVariablesAtPosition(document: vscode.TextDocument, position: vscode.Position): BladeVarInfo[] {
+	const text = document.getText();
+	const currentOffset = document.offsetAt(position);
+	const sessionVars: BladeVarInfo[] = [];
+
+	const sessionPattern = new RegExp(SESSION_PATTERNS.sessionBlock.source, 'g');
+	let match;
+
+	while ((match = sessionPattern.exec(text)) !== null) {
+		const sessionStart = match.index;
+		const key = match[1];
+
+		const endPattern = new RegExp(SESSION_PATTERNS.sessionBlockEnd.source, 'g');
+		endPattern.lastIndex = sessionStart + match[0].length;
+
+		const endMatch = endPattern.exec(text);
+		const sessionEnd = endMatch ? endMatch.index : text.length;
+
+		if (currentOffset >= sessionStart + match[0].length && currentOffset <= sessionEnd) {
+			const flashInfo = allSessionFlashInfos.find((info) => info.key === key);
+			const type = getSessionKeyType(key, allSessionFlashInfos);
+
+			sessionVars.push({
+				name: '$value',
+				source: `session('${key}')`,
+				jumpTargetUri: document.uri.toString(),
+				definedInPath: flashInfo?.definedInPath,
+				definedInLine: flashInfo?.definedInLine,
+				type,
+				properties: inferTypeProperties(type, getVariableTypeContext({ definedInPath: flashInfo?.definedInPath }))
+			});
+		}
+	}
+
+	// Nested blocks: the innermost @session wins
+	return sessionVars.slice(-1);
+}
+
 /**
  * Get foreach variables that are valid at the current position
  */
@@ -520,25 +811,24 @@ function getForeachVariablesAtPosition(document: vscode.TextDocument, position:
 
 		// Check if current position is within this foreach block
 		if (currentOffset >= foreachStart && currentOffset <= foreachEnd) {
-			// Find the collection variable info from controller
+			// Find the collection variable info from the controller or a Blade annotation
 			const bladeUri = document.uri.toString();
-			const collectionInfo = allBladeVarInfos.find((v) => 
-				v.jumpTargetUri === bladeUri && v.name === collectionVar
-			);
+			const collectionInfo = getDocumentVariables(document).find((v) => v.name === collectionVar);
 
-			if (collectionInfo && collectionInfo.type && 
-				collectionInfo.type.startsWith('Collection<') && 
-				collectionInfo.type.endsWith('>')) {
-				
-				const itemType = collectionInfo.type.slice(11, -1); // Extract Model from Collection<Model>
+			// Collection<Post> and Post[] both go through Post items
+			const itemType = collectionInfo?.type ? getIterableItemType(collectionInfo.type) : undefined;
+			if (collectionInfo && itemType) {
+				const typeContext = getVariableTypeContext(collectionInfo);
 				
 				foreachVars.push({
 					name: itemVar,
 					source: `${collectionVar} (foreach item)`,
 					jumpTargetUri: bladeUri,
 					definedInPath: collectionInfo.definedInPath,
+					definedInLine: collectionInfo.definedInLine,
 					type: itemType,
-					properties: inferTypeProperties(itemType)
+					typeContext,
+					properties: inferTypeProperties(itemType, typeContext)
 				});
 			}
 		}
@@ -548,42 +838,28 @@ function getForeachVariablesAtPosition(document: vscode.TextDocument, position:
 }
 
 /**
- * Resolve the final type by following a property chain
+ * Get the file name (and line, when known) where a variable is defined
  */
-function resolvePropertyChainType(initialType: string, propertyChain: string): string {
-	let currentType = initialType;
-	
-	if (!propertyChain) {
-		return currentType;
-	}
-	
-	// Split the chain into individual property/method calls
-	// e.g. "->user->comments->first()" becomes ["user", "comments", "first()"]
-	const chainParts = propertyChain.split('->').filter(part => part.trim());
-	
-	for (const part of chainParts) {
-		const isMethod = part.endsWith('()');
-		const propertyName = isMethod ? part.slice(0, -2) : part;
-		
-		// Get properties for the current type
-		const typeProperties = inferTypeProperties(currentType);
-		
-		if (typeProperties && typeProperties[propertyName]) {
-			currentType = typeProperties[propertyName];
-		} else {
-			// If we can't resolve the type, return mixed
-			return 'mixed';
-		}
+function getDefinitionLabel(varInfo: Pick<BladeVarInfo, 'definedInPath' | 'definedInLine'>): string {
+	const fileName = varInfo.definedInPath?.match(/[^\/]+$/)?.[0] || "";
+	return fileName && varInfo.definedInLine ? `${fileName}:${varInfo.definedInLine}` : fileName;
+}
+
+/**
+ * Get the link target for where a variable is defined, jumping to the line when known
+ */
+function getDefinitionLink(varInfo: Pick<BladeVarInfo, 'definedInPath' | 'definedInLine'>): string {
+	if (!varInfo.definedInPath || !varInfo.definedInLine) {
+		return varInfo.definedInPath || '';
 	}
-	
-	return currentType;
+	return vscode.Uri.file(varInfo.definedInPath).with({ fragment: `L${varInfo.definedInLine}` }).toString();
 }
 
 /**
- * Get the file path for a PHP class (Model, Enum, etc.)
+ * Get the file path for a PHP class (Model, Enum, etc.), resolving its name against the use statements of phpCode
  */
-function getModelFilePath(typeName: string): string | null {
-	if (!typeName || typeName === 'mixed' || !/^[A-Z]/.test(typeName)) {
+function getModelFilePath(typeName: string, phpCode: string): string | null {
+	if (!typeName || typeName === 'mixed' || !/^\??[A-Z]/.test(typeName)) {
 		return null;
 	}
 	
@@ -593,32 +869,9 @@ function getModelFilePath(typeName: string): string | null {
 		return null;
 	}
 	
-	const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath;
-	if (!workspaceRoot) {
-		return null;
-	}
-	
-	// Common paths for PHP classes in Laravel (Enums first, then Models)
-	const classPaths = [
-		// Enum paths
-		`${workspaceRoot}/app/Enums/${baseType}.php`,
-		`${workspaceRoot}/app/Models/Enums/${baseType}.php`,
-		// Model paths
-		`${workspaceRoot}/app/Models/${baseType}.php`,
-		`${workspaceRoot}/app/${baseType}.php`
-	];
-	
-	for (const classPath of classPaths) {
-		try {
-			if (require('fs').existsSync(classPath)) {
-				return `file://${classPath}`;
-			}
-		} catch {
-			// Ignore file system errors
-		}
-	}
-	
-	return null;
+	// Located through the composer.json autoloading, wherever the class lives
+	const classPath = resolveClassFilePath(baseType, phpCode);
+	return classPath ? `file://${classPath}` : null;
 }
 
 /**
@@ -652,15 +905,15 @@ function extractBaseType(typeName: string): string {
 }
 
 /**
- * Check if a type represents an enum
+ * Check if a type represents an enum, resolving its name against the use statements of phpCode
  */
-function isEnumType(typeName: string): boolean {
-	if (!typeName || typeName === 'mixed' || !/^[A-Z]/.test(typeName)) {
+function isEnumType(typeName: string, phpCode: string): boolean {
+	if (!typeName || typeName === 'mixed' || !/^\??[A-Z]/.test(typeName)) {
 		return false;
 	}
 	
 	const baseType = extractBaseType(typeName);
-	return isValidEnumClass(baseType) || isTraditionalEnumClass(baseType);
+	return isValidEnumClass(baseType, phpCode) || isTraditionalEnumClass(baseType, phpCode);
 }
 
 /**
@@ -0,0 +1,325 @@
+/**
+ * Node model for the PHP AST exported by createASTParsingScript, with helpers to walk and print it
+ */
+
+/**
+ * Value found in the AST: a node, or a scalar (string literals, numbers, identifiers)
+ */
+export type PhpAstValue = PhpAstNode | string | number | boolean | null;
+
+/**
+ * AST node. kind and flags use the php-ast constant names, e.g. AST_METHOD_CALL and MODIFIER_PUBLIC
+ */
+export type PhpAstNode = {
+  kind: string;
+  flags: string[];
+  lineno: number;
+  endLineno?: number;
+  children: PhpAstValue[] | Record<string, PhpAstValue>;
+};
+
+/**
+ * Method declared in a class, with its line range
+ */
+export type PhpAstMethod = {
+  className: string;
+  name: string;
+  node: PhpAstNode;
+  startLine: number;
+  endLine: number;
+};
+
+const BINARY_OPERATORS: Record<string, string> = {
+  BINARY_ADD: '+',
+  BINARY_SUB: '-',
+  BINARY_MUL: '*',
+  BINARY_DIV: '/',
+  BINARY_MOD: '%',
+  BINARY_POW: '**',
+  BINARY_CONCAT: '.',
+  BINARY_BITWISE_OR: '|',
+  BINARY_BITWISE_AND: '&',
+  BINARY_BITWISE_XOR: '^',
+  BINARY_SHIFT_LEFT: '<<',
+  BINARY_SHIFT_RIGHT: '>>',
+  BINARY_BOOL_AND: '&&',
+  BINARY_BOOL_OR: '||',
+  BINARY_BOOL_XOR: 'xor',
+  BINARY_IS_IDENTICAL: '===',
+  BINARY_IS_NOT_IDENTICAL: '!==',
+  BINARY_IS_EQUAL: '==',
+  BINARY_IS_NOT_EQUAL: '!=',
+  BINARY_IS_SMALLER: '<',
+  BINARY_IS_SMALLER_OR_EQUAL: '<=',
+  BINARY_IS_GREATER: '>',
+  BINARY_IS_GREATER_OR_EQUAL: '>=',
+  BINARY_SPACESHIP: '<=>',
+  BINARY_COALESCE: '??'
+};
+
+const UNARY_OPERATORS: Record<string, string> = {
+  UNARY_BOOL_NOT: '!',
+  UNARY_BITWISE_NOT: '~',
+  UNARY_MINUS: '-',
+  UNARY_PLUS: '+',
+  UNARY_SILENCE: '@'
+};
+
+const CAST_TYPES: Record<string, string> = {
+  TYPE_NULL: 'unset',
+  TYPE_BOOL: 'bool',
+  TYPE_LONG: 'int',
+  TYPE_DOUBLE: 'float',
+  TYPE_STRING: 'string',
+  TYPE_ARRAY: 'array',
+  TYPE_OBJECT: 'object'
+};
+
+const TYPE_NAMES: Record<string, string> = {
+  TYPE_ARRAY: 'array',
+  TYPE_CALLABLE: 'callable',
+  TYPE_BOOL: 'bool',
+  TYPE_LONG: 'int',
+  TYPE_DOUBLE: 'float',
+  TYPE_STRING: 'string',
+  TYPE_ITERABLE: 'iterable',
+  TYPE_OBJECT: 'object',
+  TYPE_NULL: 'null',
+  TYPE_FALSE: 'false',
+  TYPE_TRUE: 'true',
+  TYPE_VOID: 'void',
+  TYPE_MIXED: 'mixed',
+  TYPE_NEVER: 'never',
+  TYPE_STATIC: 'static'
+};
+
+/**
+ * Check whether an AST value is a node, optionally of the given kind
+ */
+export const isAstNode = (value: unknown, kind?: string): value is PhpAstNode => {
+  return typeof value === 'object' && value !== null && 'kind' in value && (!kind || (value as PhpAstNode).kind === kind);
+};
+
+/**
+ * Get a named child of a node
+ */
+export const getAstChild = (node: PhpAstNode, name: string): PhpAstValue | undefined => {
+  return Array.isArray(node.children) ? undefined : node.children[name];
+};
+
+/**
+ * Get all children of a node in source order
+ */
+export const getAstChildren = (node: PhpAstNode): PhpAstValue[] => {
+  return Array.isArray(node.children) ? node.children : Object.values(node.children);
+};
+
+/**
+ * Visit a node and all of its descendants, depth first
+ */
+export const walkAst = (value: PhpAstValue | undefined, visit: (node: PhpAstNode) => void): void => {
+  if (!isAstNode(value)) {
+    return;
+  }
+
+  visit(value);
+  for (const child of getAstChildren(value)) {
+    walkAst(child, visit);
+  }
+};
+
+/**
+ * Get the identifier of a name-like value: AST_NAME nodes, or the plain string used for method and property names
+ */
+export const getAstName = (value: PhpAstValue | undefined): string | undefined => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (isAstNode(value, 'AST_NAME')) {
+    const name = getAstChild(value, 'name');
+    return typeof name === 'string' ? name : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Get the arguments of a call node (AST_CALL, AST_METHOD_CALL, AST_STATIC_CALL, AST_NEW)
+ */
+export const getAstCallArguments = (node: PhpAstNode): PhpAstValue[] => {
+  const args = getAstChild(node, 'args');
+  return isAstNode(args) ? getAstChildren(args) : [];
+};
+
+/**
+ * List the methods of every class in the AST
+ */
+export const findClassMethods = (ast: PhpAstValue): PhpAstMethod[] => {
+  const methods: PhpAstMethod[] = [];
+
+  walkAst(ast, (node) => {
+    if (node.kind !== 'AST_CLASS') {
+      return;
+    }
+
+    const className = getAstName(getAstChild(node, 'name')) || '';
+    const statements = getAstChild(node, 'stmts');
+    const members = isAstNode(statements) ? getAstChildren(statements) : [];
+
+    for (const member of members) {
+      if (isAstNode(member, 'AST_METHOD')) {
+        methods.push({
+          className,
+          name: getAstName(getAstChild(member, 'name')) || '',
+          node: member,
+          startLine: member.lineno,
+          endLine: member.endLineno ?? member.lineno
+        });
+      }
+    }
+  });
+
+  return methods;
+};
+
+/**
+ * Get the default value of a class property declared in the AST, e.g. the array assigned to $casts
+ */
+export const findPropertyDefault = (ast: PhpAstValue, propertyName: string): PhpAstValue | undefined => {
+  let defaultValue: PhpAstValue | undefined;
+
+  walkAst(ast, (node) => {
+    if (defaultValue === undefined && node.kind === 'AST_PROP_ELEM' && getAstChild(node, 'name') === propertyName) {
+      defaultValue = getAstChild(node, 'default');
+    }
+  });
+
+  return defaultValue;
+};
+
+/**
+ * Get the [key, value] entries of an array literal; list items have a null key
+ */
+export const getAstArrayEntries = (value: PhpAstValue | undefined): [PhpAstValue, PhpAstValue][] => {
+  if (!isAstNode(value, 'AST_ARRAY')) {
+    return [];
+  }
+
+  return getAstChildren(value)
+    .filter((element): element is PhpAstNode => isAstNode(element, 'AST_ARRAY_ELEM'))
+    .map(element => [getAstChild(element, 'key') ?? null, getAstChild(element, 'value') ?? null]);
+};
+
+/**
+ * Print an expression back to PHP source, close enough to feed the type inference
+ */
+export const printAstExpression = (value: PhpAstValue | undefined): string => {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+  }
+  if (typeof value !== 'object') {
+    return String(value);
+  }
+
+  const child = (name: string) => getAstChild(value, name);
+  const print = (name: string) => printAstExpression(child(name));
+  const printName = (name: string) => {
+    const nameValue = child(name);
+    return typeof nameValue === 'string' ? nameValue : printAstExpression(nameValue);
+  };
+  const printArgs = () => getAstCallArguments(value).map(printAstExpression).join(', ');
+
+  switch (value.kind) {
+    case 'AST_VAR':
+      return typeof child('name') === 'string' ? `$${child('name')}` : `\${${print('name')}}`;
+    case 'AST_NAME':
+      return `${value.flags.includes('NAME_FQ') ? '\\' : ''}${getAstName(value)}`;
+    case 'AST_CONST':
+      return printName('name');
+    case 'AST_PROP':
+      return `${print('expr')}->${printName('prop')}`;
+    case 'AST_NULLSAFE_PROP':
+      return `${print('expr')}?->${printName('prop')}`;
+    case 'AST_STATIC_PROP':
+      return `${printName('class')}::$${printName('prop')}`;
+    case 'AST_CALL':
+      return `${printName('expr')}(${printArgs()})`;
+    case 'AST_METHOD_CALL':
+      return `${print('expr')}->${printName('method')}(${printArgs()})`;
+    case 'AST_NULLSAFE_METHOD_CALL':
+      return `${print('expr')}?->${printName('method')}(${printArgs()})`;
+    case 'AST_STATIC_CALL':
+      return `${printName('class')}::${printName('method')}(${printArgs()})`;
+    case 'AST_NEW':
+      return `new ${isAstNode(child('class'), 'AST_CLASS') ? 'class' : printName('class')}(${printArgs()})`;
+    case 'AST_CLASS_CONST':
+      return `${printName('class')}::${printName('const')}`;
+    case 'AST_CLASS_NAME':
+      return `${printName('class')}::class`;
+    case 'AST_ARG_LIST':
+      return getAstChildren(value).map(printAstExpression).join(', ');
+    case 'AST_UNPACK':
+      return `...${print('expr')}`;
+    case 'AST_NAMED_ARG':
+      return `${printName('name')}: ${print('expr')}`;
+    case 'AST_ARRAY':
+      return `[${getAstChildren(value).map(printAstExpression).join(', ')}]`;
+    case 'AST_ARRAY_ELEM':
+      return child('key') !== null && child('key') !== undefined ? `${print('key')} => ${print('value')}` : print('value');
+    case 'AST_DIM':
+      return `${print('expr')}[${child('dim') === null ? '' : print('dim')}]`;
+    case 'AST_CONDITIONAL':
+      return child('true') === null
+        ? `${print('cond')} ?: ${print('false')}`
+        : `${print('cond')} ? ${print('true')} : ${print('false')}`;
+    case 'AST_BINARY_OP': {
+      const operator = value.flags.map(flag => BINARY_OPERATORS[flag]).find(Boolean) || '??';
+      return `${print('left')} ${operator} ${print('right')}`;
+    }
+    case 'AST_UNARY_OP': {
+      const operator = value.flags.map(flag => UNARY_OPERATORS[flag]).find(Boolean) || '';
+      return `${operator}${print('expr')}`;
+    }
+    case 'AST_CAST': {
+      const castType = value.flags.map(flag => CAST_TYPES[flag]).find(Boolean) || 'mixed';
+      return `(${castType}) ${print('expr')}`;
+    }
+    case 'AST_ENCAPS_LIST':
+      return `"${getAstChildren(value).map(part => typeof part === 'string' ? part : `{${printAstExpression(part)}}`).join('')}"`;
+    case 'AST_ISSET':
+      return `isset(${print('var')})`;
+    case 'AST_EMPTY':
+      return `empty(${print('expr')})`;
+    case 'AST_CLOSURE':
+    case 'AST_ARROW_FUNC':
+      return 'function () {}';
+    default:
+      return '';
+  }
+};
+
+/**
+ * Print a type declaration back to PHP source (?int, Post|Video, \App\Models\User), or undefined when there is none
+ */
+export const printAstType = (value: PhpAstValue | undefined): string | undefined => {
+  if (!isAstNode(value)) {
+    return undefined;
+  }
+
+  switch (value.kind) {
+    case 'AST_TYPE':
+      return value.flags.map(flag => TYPE_NAMES[flag]).find(Boolean) || 'mixed';
+    case 'AST_NAME':
+      return printAstExpression(value);
+    case 'AST_NULLABLE_TYPE':
+      return `?${printAstType(getAstChild(value, 'type'))}`;
+    case 'AST_TYPE_UNION':
+      return getAstChildren(value).map(printAstType).join('|');
+    case 'AST_TYPE_INTERSECTION':
+      return getAstChildren(value).map(printAstType).join('&');
+    default:
+      return undefined;
+  }
+};
@@ -0,0 +1,206 @@
+/**
+ * Index of the workspace's classes, built from the PSR-4 and classmap autoload entries of composer.json,
+ * so that classes are found wherever the project keeps them (src/Domain, app/Modules/Blog/Models, ...).
+ * Vendor classes are looked up by fully qualified name through the PSR-4 entries of the installed packages.
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { CLASS_PATTERNS } from './php-patterns';
+
+/**
+ * Fully qualified class name => file, short name => fully qualified names in index order,
+ * and the PSR-4 namespace prefixes of the vendor packages, longest first
+ */
+type ClassIndex = {
+  root: string;
+  files: Map<string, string>;
+  shortNames: Map<string, string[]>;
+  vendorPsr4: [string, string[]][];
+};
+
+// Used when composer.json is missing or declares no autoloading
+const DEFAULT_PSR4: Record<string, string[]> = { 'App\\': ['app/'] };
+
+const IGNORED_DIRECTORIES = ['vendor', 'node_modules', '.git'];
+
+let classIndex: ClassIndex | undefined;
+
+/**
+ * Find the file of a class by its fully qualified name (App\Models\Post) or short name (Post).
+ * A short name shared by several classes resolves to the first one indexed; use statements
+ * give the fully qualified name where the distinction matters.
+ */
+export const findIndexedClassFile = (className: string): string | null => {
+  const index = getClassIndex();
+  if (!index) {
+    return null;
+  }
+
+  const name = className.replace(/^\\/, '');
+  if (name.includes('\\')) {
+    return index.files.get(name) ?? findVendorClassFile(index, name);
+  }
+
+  const [fullName] = index.shortNames.get(name) ?? [];
+  return fullName ? index.files.get(fullName) ?? null : null;
+};
+
+/**
+ * Forget the index, so that it is rebuilt on the next lookup
+ */
+export const clearClassIndex = (): void => {
+  classIndex = undefined;
+};
+
+/**
+ * Get the class index of the workspace, building it on first use
+ */
+const getClassIndex = (): ClassIndex | undefined => {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath;
+  if (!workspaceRoot) {
+    return undefined;
+  }
+  if (classIndex?.root === workspaceRoot) {
+    return classIndex;
+  }
+
+  const index: ClassIndex = { root: workspaceRoot, files: new Map(), shortNames: new Map(), vendorPsr4: readVendorPsr4(workspaceRoot) };
+  const autoload = readComposerAutoload(workspaceRoot);
+
+  for (const [prefix, directories] of Object.entries(autoload.psr4)) {
+    const namespace = prefix.replace(/\\+$/, '');
+    for (const directory of directories) {
+      const basePath = `${workspaceRoot}/${directory.replace(/\/+$/, '')}`;
+      for (const filePath of listPhpFiles(basePath)) {
+        // PSR-4: the path below the base directory is the rest of the class name
+        const relativeName = filePath.slice(basePath.length + 1, -'.php'.length).replace(/\//g, '\\');
+        addClass(index, namespace ? `${namespace}\\${relativeName}` : relativeName, filePath);
+      }
+    }
+  }
+
+  for (const entry of autoload.classmap) {
+    for (const filePath of listPhpFiles(`${workspaceRoot}/${entry.replace(/\/+$/, '')}`)) {
+      for (const className of readDeclaredClasses(filePath)) {
+        addClass(index, className, filePath);
+      }
+    }
+  }
+
+  classIndex = index;
+  return index;
+};
+
+/**
+ * Read the PSR-4 and classmap entries of autoload and autoload-dev in composer.json
+ */
+const readComposerAutoload = (workspaceRoot: string): { psr4: Record<string, string[]>; classmap: string[] } => {
+  const psr4: Record<string, string[]> = {};
+  const classmap: string[] = [];
+
+  try {
+    const composer = JSON.parse(fs.readFileSync(`${workspaceRoot}/composer.json`, 'utf-8'));
+    for (const section of [composer.autoload, composer['autoload-dev']]) {
+      for (const [prefix, directories] of Object.entries<string | string[]>(section?.['psr-4'] ?? {})) {
+        psr4[prefix] = [...(psr4[prefix] ?? []), ...(Array.isArray(directories) ? directories : [directories])];
+      }
+      classmap.push(...(Array.isArray(section?.classmap) ? section.classmap : []));
+    }
+  } catch (error) {
+    // No readable composer.json
+  }
+
+  return { psr4: Object.keys(psr4).length > 0 ? psr4 : DEFAULT_PSR4, classmap };
+};
+
+/**
+ * Read the PSR-4 entries of the packages in vendor/composer/installed.json, with their directories made absolute
+ */
+const readVendorPsr4 = (workspaceRoot: string): [string, string[]][] => {
+  const vendorPsr4: [string, string[]][] = [];
+
+  try {
+    const installed = JSON.parse(fs.readFileSync(`${workspaceRoot}/vendor/composer/installed.json`, 'utf-8'));
+    // Composer 2 wraps the packages in an object, Composer 1 lists them directly
+    const packages = Array.isArray(installed) ? installed : installed.packages ?? [];
+    for (const composerPackage of packages) {
+      const packagePath = composerPackage['install-path']
+        ? `${workspaceRoot}/vendor/composer/${composerPackage['install-path']}`
+        : `${workspaceRoot}/vendor/${composerPackage.name}`;
+      for (const [prefix, directories] of Object.entries<string | string[]>(composerPackage.autoload?.['psr-4'] ?? {})) {
+        const directoryList = Array.isArray(directories) ? directories : [directories];
+        vendorPsr4.push([prefix, directoryList.map(directory => `${packagePath}/${directory.replace(/\/+$/, '')}`)]);
+      }
+    }
+  } catch (error) {
+    // No installed packages
+  }
+
+  return vendorPsr4.sort(([a], [b]) => b.length - a.length);
+};
+
+/**
+ * Find a vendor class by its fully qualified name through the PSR-4 prefixes of the installed packages
+ */
+const findVendorClassFile = (index: ClassIndex, className: string): string | null => {
+  for (const [prefix, directories] of index.vendorPsr4) {
+    if (!className.startsWith(prefix)) {
+      continue;
+    }
+
+    const relativePath = `${className.slice(prefix.length).replace(/\\/g, '/')}.php`;
+    const filePath = directories.map(directory => `${directory}/${relativePath}`).find(path => fs.existsSync(path));
+    if (filePath) {
+      // Kept with the workspace classes, but not under its short name, which stays for workspace classes
+      index.files.set(className, filePath);
+      return filePath;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Register a class under its fully qualified and short names; the first file wins
+ */
+const addClass = (index: ClassIndex, fullName: string, filePath: string) => {
+  if (index.files.has(fullName)) {
+    return;
+  }
+
+  index.files.set(fullName, filePath);
+  const shortName = fullName.split('\\').pop() || fullName;
+  index.shortNames.set(shortName, [...(index.shortNames.get(shortName) ?? []), fullName]);
+};
+
+/**
+ * List the PHP files of a directory and its subdirectories, or the path itself when it is a PHP file
+ */
+export const listPhpFiles = (path: string): string[] => {
+  if (!fs.existsSync(path)) {
+    return [];
+  }
+  if (!fs.statSync(path).isDirectory()) {
+    return path.endsWith('.php') ? [path] : [];
+  }
+
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path, { withFileTypes: true })) {
+    if (entry.isDirectory() && !IGNORED_DIRECTORIES.includes(entry.name)) {
+      files.push(...listPhpFiles(`${path}/${entry.name}`));
+    } else if (entry.isFile() && entry.name.endsWith('.php') && !entry.name.endsWith('.blade.php')) {
+      files.push(`${path}/${entry.name}`);
+    }
+  }
+  return files;
+};
+
+/**
+ * Read the fully qualified names of the classes, interfaces, traits and enums a file declares
+ */
+const readDeclaredClasses = (filePath: string): string[] => {
+  const phpCode = fs.readFileSync(filePath, 'utf-8');
+  const namespace = phpCode.match(CLASS_PATTERNS.namespaceDeclaration)?.[1];
+
+  return [...phpCode.matchAll(CLASS_PATTERNS.typeDeclaration)].map(match => namespace ? `${namespace}\\${match[1]}` : match[1]);
+};
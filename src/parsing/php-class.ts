@@ -0,0 +1,523 @@
+import * as fs from 'fs';
+import { CLASS_PATTERNS } from './php-patterns';
+import { findIndexedClassFile } from './php-class-index';
+import { findClosingBracket, splitTopLevelArguments } from './php-syntax';
+
+/**
+ * Public member of a PHP class as written in the source
+ */
+export type PhpClassMember = {
+  name: string;
+  isMethod: boolean;
+  line: number;
+  typeHint?: string;
+  defaultValue?: string;
+  parameters?: string[];
+};
+
+/**
+ * Parse `use` statements into a map of alias => fully qualified class name
+ */
+export const parseUseStatements = (phpCode: string): Record<string, string> => {
+  const imports: Record<string, string> = {};
+  // `use SomeTrait;` inside the class body is not an import
+  const classStart = phpCode.search(CLASS_PATTERNS.classDeclaration);
+
+  for (const match of phpCode.slice(0, classStart === -1 ? undefined : classStart).matchAll(CLASS_PATTERNS.useStatement)) {
+    const [, fullName, alias] = match;
+    const shortName = alias || fullName.split('\\').pop() || fullName;
+    imports[shortName] = fullName.replace(/^\\/, '');
+  }
+
+  return imports;
+};
+
+/**
+ * Resolve a class reference (short, aliased or fully qualified) to its fully qualified name
+ */
+export const resolveClassName = (className: string, phpCode: string): string => {
+  if (className.startsWith('\\')) {
+    return className.slice(1);
+  }
+
+  const [firstSegment, ...rest] = className.split('\\');
+  const imports = parseUseStatements(phpCode);
+  if (imports[firstSegment]) {
+    return [imports[firstSegment], ...rest].join('\\');
+  }
+
+  // Unqualified names resolve relative to the current namespace
+  const namespace = phpCode.match(CLASS_PATTERNS.namespaceDeclaration)?.[1];
+  return namespace ? `${namespace}\\${className}` : className;
+};
+
+/**
+ * Resolve a class reference to its file in the workspace through the composer autoload index.
+ * Unqualified names that are neither imported nor in the current namespace are looked up by short name.
+ */
+export const resolveClassFilePath = (className: string, phpCode: string): string | null => {
+  const classPath = findIndexedClassFile(resolveClassName(className, phpCode));
+  if (classPath || className.includes('\\') || parseUseStatements(phpCode)[className]) {
+    return classPath;
+  }
+
+  return findIndexedClassFile(className);
+};
+
+/**
+ * Get the code of the file declaring the class a type is about (Post for ?Post, Post[] or Collection<Post>), which
+ * the class names in the types of its members resolve against. phpCode when that class is not in the workspace.
+ */
+export const getTypeClassCode = (type: string, phpCode: string): string => {
+  const [className, ...others] = splitUnionType(type).filter(member => member !== 'null')
+    .map(member => member.replace(/\[\]$/, '').replace(/^Collection<(.+)>$/, '$1'));
+  const classPath = className && others.length === 0 && /^\\?[A-Z]/.test(className)
+    ? resolveClassFilePath(className, phpCode)
+    : null;
+
+  return classPath ? fs.readFileSync(classPath, 'utf8') : phpCode;
+};
+
+/**
+ * Check whether a class is one of parentNames or extends one of them, following the parent classes
+ * found in the workspace. Names are compared without their namespace.
+ */
+export const isSubclassOf = (className: string, phpCode: string, parentNames: string[], depth = 0): boolean => {
+  if (parentNames.includes(className.split('\\').pop() || className)) {
+    return true;
+  }
+
+  const classPath = depth < 10 ? resolveClassFilePath(className, phpCode) : null;
+  if (!classPath) {
+    return false;
+  }
+
+  const classCode = fs.readFileSync(classPath, 'utf8');
+  const parentName = classCode.match(CLASS_PATTERNS.parentClass)?.[1];
+  return parentName ? isSubclassOf(parentName, classCode, parentNames, depth + 1) : false;
+};
+
+/**
+ * Extract public properties, public constructor-promoted parameters and public methods from a class
+ */
+export const parsePublicMembers = (phpCode: string): PhpClassMember[] => {
+  const members: PhpClassMember[] = [];
+
+  // Promoted parameters are handled separately, so skip anything inside the constructor signature
+  const constructorMatch = phpCode.match(CLASS_PATTERNS.constructorMethod);
+  const constructorStart = constructorMatch?.index ?? -1;
+  const constructorEnd = constructorMatch?.index !== undefined
+    ? findClosingBracket(phpCode, constructorMatch.index + constructorMatch[0].length - 1)
+    : -1;
+
+  for (const match of phpCode.matchAll(CLASS_PATTERNS.publicProperty)) {
+    if (match.index !== undefined && match.index > constructorStart && match.index < constructorEnd) {
+      continue;
+    }
+
+    const [, typeHint, name, defaultValue] = match;
+    members.push({
+      name,
+      isMethod: false,
+      line: getLineNumber(phpCode, match.index),
+      typeHint: typeHint?.trim(),
+      defaultValue: defaultValue?.trim()
+    });
+  }
+
+  // Constructor property promotion: public function __construct(public User $user)
+  const constructorLine = getLineNumber(phpCode, constructorMatch?.index);
+  for (const parameter of parseMethodParameters(phpCode, CLASS_PATTERNS.constructorMethod)) {
+    const promotedMatch = parameter.match(CLASS_PATTERNS.promotedParameter);
+    if (promotedMatch && promotedMatch[1] === 'public') {
+      const [, , typeHint, name, defaultValue] = promotedMatch;
+      members.push({
+        name,
+        isMethod: false,
+        line: constructorLine,
+        typeHint: typeHint?.trim(),
+        defaultValue: defaultValue?.trim()
+      });
+    }
+  }
+
+  for (const match of phpCode.matchAll(CLASS_PATTERNS.publicMethod)) {
+    const name = match[1];
+    if (name.startsWith('__') || match.index === undefined) {
+      continue;
+    }
+
+    const openParen = match.index + match[0].length - 1;
+    const closeParen = findClosingBracket(phpCode, openParen);
+    if (closeParen === -1) {
+      continue;
+    }
+
+    const returnTypeMatch = phpCode.slice(closeParen + 1).match(CLASS_PATTERNS.returnType);
+    members.push({
+      name,
+      isMethod: true,
+      line: getLineNumber(phpCode, match.index),
+      typeHint: returnTypeMatch?.[1],
+      parameters: splitTopLevelArguments(phpCode.slice(openParen + 1, closeParen))
+    });
+  }
+
+  return members;
+};
+
+/**
+ * Get the raw parameter declarations of the first method matched by methodPattern
+ */
+export const parseMethodParameters = (phpCode: string, methodPattern: RegExp): string[] => {
+  const methodMatch = phpCode.match(methodPattern);
+  if (!methodMatch || methodMatch.index === undefined) {
+    return [];
+  }
+
+  const openParen = methodMatch.index + methodMatch[0].length - 1;
+  const closeParen = findClosingBracket(phpCode, openParen);
+  return closeParen === -1 ? [] : splitTopLevelArguments(phpCode.slice(openParen + 1, closeParen));
+};
+
+/**
+ * Convert a PHP type hint into our type notation: drop namespaces and keep nullability (?string, A|B|null)
+ */
+export const normalizeTypeHint = (typeHint: string, selfClassName?: string): string => {
+  const types = typeHint
+    .replace(/^\?(.+)$/, '$1|null')
+    .split('|')
+    .map(type => type.split('\\').pop() || type)
+    .map(type => type.toLowerCase() === 'null' ? 'null' : type)
+    .map(type => ['self', 'static'].includes(type.toLowerCase()) && selfClassName ? selfClassName : type);
+
+  return types.some(type => type !== 'null') ? joinUnionTypes(types) : 'mixed';
+};
+
+/**
+ * Read the type of the first of the given PHPDoc tags: `@return Collection<int, Order>` => 'Collection<int, Order>'
+ */
+export const findDocTagType = (docComment: string, tagNames: string[]): string | undefined => {
+  for (const tagName of tagNames) {
+    const tagMatch = new RegExp(`@${tagName}\\s+`).exec(docComment);
+    const type = tagMatch ? readDocType(docComment, tagMatch.index + tagMatch[0].length).type : '';
+    if (type && !type.startsWith('$')) {
+      return type;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Read the @var, @psalm-var and @phpstan-var tags of a doc comment, the most specific last:
+ * `@var Collection<int, Invoice> $invoices` => { type: 'Collection<int, Invoice>', name: 'invoices' }.
+ * The name is empty when the tag is about the assignment that follows the comment.
+ */
+export const parseDocVarTags = (docComment: string): { type: string; name: string }[] => {
+  const tags: { type: string; name: string }[] = [];
+
+  for (const tagName of ['var', 'psalm-var', 'phpstan-var']) {
+    for (const tagMatch of docComment.matchAll(new RegExp(`@${tagName}\\s+`, 'g'))) {
+      const { type, end } = readDocType(docComment, (tagMatch.index ?? 0) + tagMatch[0].length);
+      if (type && !type.startsWith('$')) {
+        tags.push({ type, name: docComment.slice(end).match(/^[ \t]+\$(\w+)/)?.[1] ?? '' });
+      }
+    }
+  }
+
+  return tags;
+};
+
+/**
+ * Find the last doc comment giving a variable a @var type, by name or right before an assignment to it
+ */
+export const findVarDocComment = (phpCode: string, varName: string): string | undefined => {
+  let docComment: string | undefined;
+
+  for (const commentMatch of phpCode.matchAll(/\/\*\*[\s\S]*?\*\//g)) {
+    const commentEnd = (commentMatch.index ?? 0) + commentMatch[0].length;
+    const isBeforeAssignment = new RegExp(`^\\s*\\$${varName}\\s*=(?![=>])`).test(phpCode.slice(commentEnd, commentEnd + varName.length + 40));
+    if (parseDocVarTags(commentMatch[0]).some(tag => tag.name === varName || (!tag.name && isBeforeAssignment))) {
+      docComment = commentMatch[0];
+    }
+  }
+
+  // Re-indent continuation lines, which keep the indentation of the controller
+  return docComment?.replace(/\n[ \t]*\*/g, '\n *');
+};
+
+/**
+ * Read a PHPDoc type starting at start; it ends at the first whitespace outside of generics and shapes
+ */
+const readDocType = (docComment: string, start: number): { type: string; end: number } => {
+  let depth = 0;
+  let end = start;
+  while (end < docComment.length && (depth > 0 || !/[\s*]/.test(docComment[end]))) {
+    if ('<({'.includes(docComment[end])) {
+      depth++;
+    } else if ('>)}'.includes(docComment[end])) {
+      depth--;
+    }
+    end++;
+  }
+
+  return { type: docComment.slice(start, end).replace(/\s+/g, ' '), end };
+};
+
+const COLLECTION_CLASSES = ['Collection', 'EloquentCollection', 'LazyCollection', 'Enumerable'];
+
+const ARRAY_TYPES = ['array', 'list', 'non-empty-array', 'non-empty-list', 'iterable'];
+
+const SCALAR_ALIASES: Record<string, string> = {
+  integer: 'int',
+  boolean: 'bool',
+  double: 'float',
+  true: 'bool',
+  false: 'bool',
+  'non-empty-string': 'string',
+  'class-string': 'string',
+  'positive-int': 'int',
+  'negative-int': 'int'
+};
+
+/**
+ * Convert a declared or PHPDoc type to our notation, keeping null: namespaces are dropped,
+ * Collection<int, Order> becomes Collection<Order> and array<int, Order> or list<Order> become Order[]
+ */
+export const normalizeDocType = (type: string, selfClassName?: string): string => {
+  return joinUnionTypes(splitUnionType(type).map(member => {
+    if (member.endsWith('[]')) {
+      return `${normalizeDocType(member.slice(0, -2), selfClassName)}[]`;
+    }
+    // Array shapes: array{id: int, name: string}
+    if (/^(?:array|list)\{/i.test(member)) {
+      return 'array';
+    }
+
+    const genericStart = member.indexOf('<');
+    const baseName = (genericStart === -1 ? member : member.slice(0, genericStart)).split('\\').pop() || member;
+    const typeArguments = genericStart === -1 ? [] : splitTypeList(member.slice(genericStart + 1, member.lastIndexOf('>')), ',');
+    // The value type is the last type argument
+    const valueType = typeArguments.length > 0 ? normalizeDocType(typeArguments[typeArguments.length - 1], selfClassName) : undefined;
+
+    if (COLLECTION_CLASSES.includes(baseName)) {
+      return valueType && valueType !== 'mixed' ? `Collection<${valueType}>` : 'Collection';
+    }
+    if (ARRAY_TYPES.includes(baseName.toLowerCase())) {
+      return valueType && valueType !== 'mixed' ? `${valueType}[]` : 'array';
+    }
+    if (['self', 'static', '$this'].includes(baseName.toLowerCase())) {
+      return selfClassName || 'mixed';
+    }
+    return SCALAR_ALIASES[baseName.toLowerCase()] || baseName;
+  }));
+};
+
+/**
+ * Write use statements for the qualified class names of a doc type, so that the short names normalizeDocType
+ * leaves resolve to the same classes: array<int, \App\Models\Post> => use App\Models\Post;
+ */
+export const createTypeUseStatements = (type: string): string => {
+  const classNames = type.match(/\\?[A-Za-z_]\w*(?:\\[A-Za-z_]\w*)+/g) || [];
+  return [...new Set(classNames)].map(className => `use ${className.replace(/^\\/, '')};`).join('\n');
+};
+
+/**
+ * Convert a class or method name to snake case like Str::snake: BlogPost => blog_post, fullName => full_name
+ */
+export const toSnakeCase = (name: string): string => {
+  return name.replace(/(.)(?=[A-Z])/g, '$1_').toLowerCase();
+};
+
+/**
+ * Get the 1-based line number of an offset in the source
+ */
+export const getLineNumber = (phpCode: string, offset = 0): number => {
+  return phpCode.slice(0, offset).split('\n').length;
+};
+
+/**
+ * Split a union type on its top-level pipes, expanding ?Type: '?Post|Collection<A|B>' => ['Post', 'null', 'Collection<A|B>']
+ */
+export const splitUnionType = (type: string): string[] => {
+  return splitTypeList(type, '|')
+    .flatMap(member => member.startsWith('?') ? [member.slice(1), 'null'] : [member]);
+};
+
+/**
+ * Split a type on a separator outside of generics and shapes: 'int, array<string, Post>' => ['int', 'array<string, Post>']
+ */
+const splitTypeList = (type: string, separator: string): string[] => {
+  const members: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < type.length; i++) {
+    if ('<({'.includes(type[i])) {
+      depth++;
+    } else if ('>)}'.includes(type[i])) {
+      depth--;
+    } else if (type[i] === separator && depth === 0) {
+      members.push(type.slice(start, i));
+      start = i + 1;
+    }
+  }
+  members.push(type.slice(start));
+
+  return members.map(member => member.trim()).filter(member => member);
+};
+
+/**
+ * Combine types into one union. mixed absorbs everything, and a single type with null is written ?Type
+ */
+export const joinUnionTypes = (types: string[]): string => {
+  const members = [...new Set(types.flatMap(splitUnionType))];
+  if (members.length === 0 || members.includes('mixed')) {
+    return 'mixed';
+  }
+
+  const nonNullMembers = members.filter(member => member !== 'null');
+  if (nonNullMembers.length === members.length || nonNullMembers.length === 0) {
+    return members.join('|');
+  }
+  return nonNullMembers.length === 1 ? `?${nonNullMembers[0]}` : [...nonNullMembers, 'null'].join('|');
+};
+
+/**
+ * Get the type of the items a loop goes through: Post for Collection<Post> and for the list Post[]
+ */
+export const getIterableItemType = (type: string): string | undefined => {
+  if (type.startsWith('Collection<') && type.endsWith('>')) {
+    return type.slice(11, -1);
+  }
+  return type.endsWith('[]') ? type.slice(0, -2) : undefined;
+};
+
+/**
+ * Remove null from a type: ?Post => Post
+ */
+export const removeNullType = (type: string): string => {
+  const members = splitUnionType(type).filter(member => member !== 'null');
+  return members.length > 0 ? joinUnionTypes(members) : 'mixed';
+};
+
+/**
+ * Get the offset at which a 1-based line starts
+ */
+export const getLineOffset = (phpCode: string, line: number): number => {
+  let offset = 0;
+  for (let current = 1; current < line; current++) {
+    const newline = phpCode.indexOf('\n', offset);
+    if (newline === -1) {
+      return phpCode.length;
+    }
+    offset = newline + 1;
+  }
+  return offset;
+};
+
+/**
+ * Find the braces of the body of the function declared at a functionDeclaration match; undefined for
+ * abstract and interface methods, which have none
+ */
+const findFunctionBody = (phpCode: string, match: RegExpMatchArray): { open: number; close: number } | undefined => {
+  const paramsClose = findClosingBracket(phpCode, (match.index ?? 0) + match[0].length - 1);
+  const bodyOpen = paramsClose === -1 ? -1 : phpCode.indexOf('{', paramsClose);
+  const declarationEnd = paramsClose === -1 ? -1 : phpCode.indexOf(';', paramsClose);
+  if (bodyOpen === -1 || (declarationEnd !== -1 && declarationEnd < bodyOpen)) {
+    return undefined;
+  }
+
+  return { open: bodyOpen, close: findClosingBracket(phpCode, bodyOpen) };
+};
+
+/**
+ * Find the start of the innermost named function or method whose body contains offset
+ */
+export const findEnclosingMethodStart = (phpCode: string, offset: number): number | undefined => {
+  let methodStart: number | undefined;
+
+  for (const match of phpCode.matchAll(CLASS_PATTERNS.functionDeclaration)) {
+    const start = match.index ?? 0;
+    if (start >= offset) {
+      break;
+    }
+
+    const body = findFunctionBody(phpCode, match);
+    if (body && (body.close === -1 || body.close >= offset)) {
+      methodStart = start;
+    }
+  }
+
+  return methodStart;
+};
+
+/**
+ * Empty the body of every function declared in code, keeping the signatures: function show(User $user) {}
+ */
+const removeFunctionBodies = (code: string): string => {
+  let result = '';
+  let position = 0;
+
+  for (const match of code.matchAll(CLASS_PATTERNS.functionDeclaration)) {
+    const body = (match.index ?? 0) >= position ? findFunctionBody(code, match) : undefined;
+    if (!body || body.close === -1) {
+      continue;
+    }
+    result += code.slice(position, body.open + 1) + '}';
+    position = body.close + 1;
+  }
+
+  return result + code.slice(position);
+};
+
+/**
+ * Get the class declaring the method at methodStart without its method bodies and closing brace,
+ * so that its property declarations are visible to the method
+ */
+const getClassSkeleton = (phpCode: string, methodStart: number): string => {
+  const declarations = [...phpCode.slice(0, methodStart).matchAll(CLASS_PATTERNS.classDeclaration)];
+  const classMatch = declarations[declarations.length - 1];
+  if (!classMatch) {
+    return '';
+  }
+
+  const classStart = classMatch.index ?? 0;
+  const classClose = findClosingBracket(phpCode, classStart + classMatch[0].length - 1);
+  if (classClose !== -1 && classClose < methodStart) {
+    return '';
+  }
+
+  // The members declared after the method matter too
+  const methodMatch = [...phpCode.slice(methodStart).matchAll(CLASS_PATTERNS.functionDeclaration)][0];
+  const methodBody = methodMatch && findFunctionBody(phpCode.slice(methodStart), methodMatch);
+  const followingMembers = methodBody && methodBody.close !== -1 && classClose !== -1
+    ? phpCode.slice(methodStart + methodBody.close + 1, classClose)
+    : '';
+
+  return removeFunctionBodies(phpCode.slice(classStart, methodStart) + followingMembers);
+};
+
+/**
+ * Get the code visible at offset: the namespace and use statements (to resolve class names), the declaration
+ * of the enclosing class without its method bodies (for the property types), then the enclosing method
+ * up to offset, so that assignments in other methods do not leak in
+ */
+export const getMethodScopeCode = (
+  phpCode: string,
+  offset: number,
+  methodStart = findEnclosingMethodStart(phpCode, offset)
+): string => {
+  if (methodStart === undefined) {
+    return phpCode.slice(0, offset);
+  }
+
+  const preamble = [
+    phpCode.match(CLASS_PATTERNS.namespaceDeclaration)?.[0],
+    ...(phpCode.slice(0, methodStart).match(CLASS_PATTERNS.useStatement) || []),
+    getClassSkeleton(phpCode, methodStart)
+  ].filter(Boolean).join('\n');
+
+  return `${preamble}\n${phpCode.slice(methodStart, offset)}`;
+};
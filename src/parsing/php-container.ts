@@ -0,0 +1,159 @@
+/**
+ * Classes resolved from the service container, e.g. app(ReportService::class) or App::make('metrics'),
+ * following the bind/singleton registrations of the workspace's service providers
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { CLASS_PATTERNS, CONTAINER_PATTERNS } from './php-patterns';
+import { resolveClassName } from './php-class';
+import { listPhpFiles } from './php-class-index';
+import { findClosingBracket, splitTopLevelArguments } from './php-syntax';
+
+/**
+ * Abstract => concrete class, collected from the service providers of a workspace
+ */
+type ContainerBindings = {
+  root: string;
+  bindings: Record<string, string>;
+};
+
+// An interface may be bound to another abstract, which is bound in turn; followed at most this deep
+const MAX_BINDING_DEPTH = 5;
+
+let containerBindings: ContainerBindings | undefined;
+
+/**
+ * Get the fully qualified class a container call resolves to, when expression is one:
+ * app(Foo::class), resolve('App\Services\Foo'), App::make('metrics'), app()->make(Foo::class).
+ * Class names are resolved against the use statements of phpCode.
+ */
+export const findContainerCallClass = (expression: string, phpCode: string): string | undefined => {
+  const callMatch = expression.trim().match(CONTAINER_PATTERNS.resolveCall);
+  if (!callMatch) {
+    return undefined;
+  }
+
+  // Only the call itself: app(Foo::class)->report() is typed by the report() return type
+  const code = expression.trim();
+  const openParen = callMatch[0].length - 1;
+  const closeParen = findClosingBracket(code, openParen);
+  if (closeParen === -1 || !/^\s*;?\s*$/.test(code.slice(closeParen + 1))) {
+    return undefined;
+  }
+
+  const [abstractArgument] = splitTopLevelArguments(code.slice(openParen + 1, closeParen));
+  const abstract = abstractArgument ? parseAbstract(abstractArgument, phpCode) : undefined;
+  return abstract ? resolveContainerBinding(abstract) : undefined;
+};
+
+/**
+ * Follow the provider bindings of an abstract (class name or string key) to the class it resolves to.
+ * Unbound class names resolve to themselves, unbound string keys to nothing.
+ */
+export const resolveContainerBinding = (abstract: string, depth = 0): string | undefined => {
+  const concrete = depth < MAX_BINDING_DEPTH ? findContainerBindings()[abstract] : undefined;
+  if (concrete && concrete !== abstract) {
+    return resolveContainerBinding(concrete, depth + 1);
+  }
+
+  return /^[A-Z][\w\\]*$/.test(abstract) ? abstract : undefined;
+};
+
+/**
+ * Forget the collected bindings, so that the providers are read again on the next lookup
+ */
+export const clearContainerBindings = (): void => {
+  containerBindings = undefined;
+};
+
+/**
+ * Parse the container bindings registered by a service provider: abstract => concrete class
+ */
+export const parseContainerBindings = (providerCode: string): Record<string, string> => {
+  const bindings: Record<string, string> = {};
+
+  // $this->app->singleton(Contract::class, fn ($app) => new Implementation(...))
+  for (const bindingMatch of providerCode.matchAll(CONTAINER_PATTERNS.bindingCall)) {
+    const openParen = (bindingMatch.index ?? 0) + bindingMatch[0].length - 1;
+    const closeParen = findClosingBracket(providerCode, openParen);
+    if (closeParen === -1) {
+      continue;
+    }
+
+    const [abstractArgument, concreteArgument] = splitTopLevelArguments(providerCode.slice(openParen + 1, closeParen));
+    const abstract = abstractArgument ? parseAbstract(abstractArgument, providerCode) : undefined;
+    // bind(Foo::class) without a concrete registers the class itself
+    const concrete = concreteArgument ? parseConcrete(concreteArgument, providerCode) : abstract;
+    if (abstract && concrete) {
+      bindings[abstract] = concrete;
+    }
+  }
+
+  // public $bindings = [Contract::class => Implementation::class] (and $singletons)
+  for (const propertyMatch of providerCode.matchAll(CONTAINER_PATTERNS.bindingProperty)) {
+    const openBracket = (propertyMatch.index ?? 0) + propertyMatch[0].length - 1;
+    const closeBracket = findClosingBracket(providerCode, openBracket);
+    if (closeBracket === -1) {
+      continue;
+    }
+
+    for (const entry of splitTopLevelArguments(providerCode.slice(openBracket + 1, closeBracket))) {
+      const [abstractArgument, concreteArgument] = entry.split('=>').map(part => part.trim());
+      const abstract = parseAbstract(abstractArgument, providerCode);
+      const concrete = concreteArgument ? parseAbstract(concreteArgument, providerCode) : undefined;
+      if (abstract && concrete) {
+        bindings[abstract] = concrete;
+      }
+    }
+  }
+
+  return bindings;
+};
+
+/**
+ * Collect the bindings of every service provider under app/Providers, reading them on first use
+ */
+const findContainerBindings = (): Record<string, string> => {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath;
+  if (!workspaceRoot) {
+    return {};
+  }
+  if (containerBindings?.root === workspaceRoot) {
+    return containerBindings.bindings;
+  }
+
+  const bindings: Record<string, string> = {};
+  // Subdirectories included, like the providers scanned for shared view data
+  for (const providerPath of listPhpFiles(`${workspaceRoot}/app/Providers`)) {
+    Object.assign(bindings, parseContainerBindings(fs.readFileSync(providerPath, 'utf-8')));
+  }
+
+  containerBindings = { root: workspaceRoot, bindings };
+  return bindings;
+};
+
+/**
+ * Read the abstract of a container call: Foo::class and 'App\Services\Foo' give the fully qualified
+ * class name, other strings ('metrics') are kept as the binding key
+ */
+const parseAbstract = (argument: string, phpCode: string): string | undefined => {
+  const classMatch = argument.trim().match(CLASS_PATTERNS.classReference);
+  if (classMatch) {
+    return resolveClassName((argument.trim().startsWith('\\') ? '\\' : '') + classMatch[1], phpCode);
+  }
+
+  const stringMatch = argument.trim().match(/^['"]([^'"]+)['"]$/);
+  return stringMatch?.[1].replace(/\\\\/g, '\\').replace(/^\\/, '');
+};
+
+/**
+ * Read the concrete of a binding: a class reference, or a closure typed by its return type or
+ * the first class it instantiates
+ */
+const parseConcrete = (argument: string, providerCode: string): string | undefined => {
+  const closureTypeMatch = argument.match(CONTAINER_PATTERNS.closureReturnType);
+  const newMatch = closureTypeMatch ? null : argument.match(CONTAINER_PATTERNS.newInstance);
+  const className = closureTypeMatch?.[1] ?? newMatch?.[1];
+
+  return className ? resolveClassName(className, providerCode) : parseAbstract(argument, providerCode);
+};
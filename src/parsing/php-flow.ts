@@ -0,0 +1,786 @@
+/**
+ * Flow-sensitive variable typing over the built-in parser's AST: follows assignments through if/else,
+ * switch, loops, ternaries, null coalescing and early returns up to a point in the code
+ */
+import {
+  PhpAstNode,
+  PhpAstValue,
+  getAstCallArguments,
+  getAstChild,
+  getAstChildren,
+  getAstName,
+  isAstNode,
+  printAstExpression,
+  printAstType,
+  walkAst
+} from './php-ast';
+import { PhpToken, tokenizePhp } from './php-lexer';
+import { parsePhpExpression, parsePhpTokens } from './php-parser';
+import { joinUnionTypes, parseDocVarTags, removeNullType, splitUnionType } from './php-class';
+
+/**
+ * Type of each assigned variable on one path through the code
+ */
+type FlowState = Map<string, string>;
+
+type FlowResult = {
+  state: FlowState;
+  // The path ended with return, throw, exit or abort()
+  exits: boolean;
+  // Variable types at the cursor, once it has been reached
+  cursorState?: FlowState;
+};
+
+/**
+ * Typing of the code the flow analysis does not follow itself
+ */
+export type FlowTypeResolvers = {
+  // Types a leaf expression (literal, new, static call...) printed back to PHP source
+  inferValueType: (valueExpression: string) => string;
+  // Converts a declared or PHPDoc type (?\App\Models\User, Collection<int, Post>) to our notation
+  resolveTypeHint: (typeHint: string) => string;
+  // Gives the return type of a class method, undefined when it is not known
+  resolveMethodType: (className: string, methodName: string) => string | undefined;
+};
+
+// Not valid PHP identifiers, so they cannot clash with real code
+const CURSOR = '<cursor>';
+// State entry holding the name of the class $this refers to
+const CURRENT_CLASS = '<class>';
+// Function standing for a `@var Type $name` doc comment between statements
+const VAR_ANNOTATION = '<var>';
+
+const BRACKET_CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '#[': ']' };
+
+const MEMBER_MODIFIERS = ['public', 'protected', 'private', 'static', 'final', 'abstract'];
+
+// Keywords starting a class member or declaration, whose doc comments are read by the parser
+const DECLARATION_KEYWORDS = [...MEMBER_MODIFIERS, 'var', 'readonly', 'function', 'const', 'case', 'use', 'class', 'interface', 'trait', 'enum', 'namespace'];
+
+/**
+ * Infer the type of a variable at the end of code, which may stop in the middle of a statement
+ * (e.g. right before a view() call). Parameters are typed from their declarations and `this->name` gives
+ * the type of a property of $this. Returns undefined when nothing declares or assigns the variable.
+ */
+export const inferFlowVariableType = (code: string, varName: string, resolvers: FlowTypeResolvers): string | undefined => {
+  return analyzeUpToCursor(code, resolvers).get(varName);
+};
+
+/**
+ * Infer the type of an expression evaluated at the end of code: ['orders' => $this->orders->recentFor($user)]
+ */
+export const inferFlowValueType = (code: string, valueExpression: string, resolvers: FlowTypeResolvers): string => {
+  return inferFlowExpressionType(parsePhpExpression(valueExpression), analyzeUpToCursor(code, resolvers), resolvers);
+};
+
+/**
+ * Get the variable types at the end of code
+ */
+const analyzeUpToCursor = (code: string, resolvers: FlowTypeResolvers): FlowState => {
+  const source = code.trimStart().startsWith('<?php') ? code : `<?php ${code}`;
+  const ast = parsePhpTokens(closeAtCursor(removeMemberModifiers(annotateVarTags(tokenizePhp(source)))));
+  const result = analyzeStatements(getAstChildren(ast), new Map(), resolvers);
+
+  return result.cursorState ?? result.state;
+};
+
+/**
+ * Replace the @var doc comments found between statements with a `<var>('Type', 'name');` statement,
+ * so that the analysis meets them in order
+ */
+const annotateVarTags = (tokens: PhpToken[]): PhpToken[] => {
+  return tokens.flatMap((token, index) => {
+    if (token.type !== 'doc_comment') {
+      return [token];
+    }
+
+    const nextToken = tokens[index + 1];
+    const isDeclarationDoc = nextToken.type === 'symbol' ? nextToken.value === '#[' : DECLARATION_KEYWORDS.includes(nextToken.value.toLowerCase());
+    if (isDeclarationDoc) {
+      return [token];
+    }
+
+    const createToken = (type: PhpToken['type'], value: string): PhpToken => ({ type, value, line: token.line, offset: token.offset });
+    return parseDocVarTags(token.value).flatMap(tag => [
+      createToken('identifier', VAR_ANNOTATION),
+      createToken('symbol', '('),
+      createToken('string', tag.type),
+      createToken('symbol', ','),
+      createToken('string', tag.name),
+      createToken('symbol', ')'),
+      createToken('symbol', ';')
+    ]);
+  });
+};
+
+/**
+ * Method code is usually analyzed without its class, where `public function` does not parse
+ */
+const removeMemberModifiers = (tokens: PhpToken[]): PhpToken[] => {
+  return tokens.filter((token, index) => {
+    if (token.type !== 'identifier' || !MEMBER_MODIFIERS.includes(token.value.toLowerCase())) {
+      return true;
+    }
+    let nextIndex = index + 1;
+    while (tokens[nextIndex].type === 'identifier' && MEMBER_MODIFIERS.includes(tokens[nextIndex].value.toLowerCase())) {
+      nextIndex++;
+    }
+    return !(tokens[nextIndex].type === 'identifier' && tokens[nextIndex].value.toLowerCase() === 'function');
+  });
+};
+
+/**
+ * Drop the unfinished statement at the end of the tokens, then add a cursor statement and close the open brackets
+ */
+const closeAtCursor = (tokens: PhpToken[]): PhpToken[] => {
+  const eof = tokens[tokens.length - 1];
+  let boundary = tokens.length - 2;
+  while (boundary >= 0 && tokens[boundary].type !== 'open_tag' && !(tokens[boundary].type === 'symbol' && [';', '{', '}'].includes(tokens[boundary].value))) {
+    boundary--;
+  }
+
+  const kept = tokens.slice(0, boundary + 1);
+  const openers: string[] = [];
+  for (const token of kept) {
+    if (token.type !== 'symbol') {
+      continue;
+    }
+    if (BRACKET_CLOSERS[token.value]) {
+      openers.push(token.value);
+    } else if ([')', ']', '}'].includes(token.value)) {
+      openers.pop();
+    }
+  }
+
+  const createToken = (type: PhpToken['type'], value: string): PhpToken => ({ type, value, line: eof.line, offset: eof.offset });
+  const closing = [createToken('identifier', CURSOR), createToken('symbol', ';')];
+  for (let i = openers.length - 1; i >= 0; i--) {
+    closing.push(createToken('symbol', BRACKET_CLOSERS[openers[i]]));
+    // Closing an expression bracket ends its statement when the enclosing bracket is a block
+    if (openers[i] !== '{' && (i === 0 || openers[i - 1] === '{')) {
+      closing.push(createToken('symbol', ';'));
+    }
+  }
+
+  return [...kept, ...closing, eof];
+};
+
+/**
+ * Analyze a statement list in order, stopping at the cursor; exits tells whether every path returns or throws
+ */
+const analyzeStatements = (statements: PhpAstValue[], entryState: FlowState, resolvers: FlowTypeResolvers): FlowResult => {
+  let state = entryState;
+  let exits = false;
+  // @var annotations are authoritative: they also override the type of the statement that follows them
+  let annotations: [string, string][] = [];
+
+  for (const statement of statements) {
+    if (!isAstNode(statement)) {
+      continue;
+    }
+
+    const annotation = getVarAnnotation(statement);
+    if (annotation) {
+      annotations.push([annotation.name, resolvers.resolveTypeHint(annotation.type)]);
+      state = applyAnnotations(state, annotations);
+      continue;
+    }
+
+    const result = analyzeStatement(statement, state, resolvers);
+    if (result.cursorState) {
+      return result;
+    }
+
+    // A nameless annotation (/** @var Post */ $post = ...) is about the assigned variable
+    const assignedName = isAstNode(statement, 'AST_ASSIGN') ? getTrackedName(getAstChild(statement, 'var')) : undefined;
+    state = applyAnnotations(result.state, annotations, assignedName);
+    annotations = [];
+    exits = exits || result.exits;
+  }
+
+  return { state, exits };
+};
+
+/**
+ * Read the type and name of a `<var>('Type', 'name');` statement written for an @var doc comment
+ */
+const getVarAnnotation = (statement: PhpAstNode): { type: string; name: string } | undefined => {
+  if (!isAstNode(statement, 'AST_CALL') || getAstName(getAstChild(statement, 'expr')) !== VAR_ANNOTATION) {
+    return undefined;
+  }
+  const [type, name] = getAstCallArguments(statement);
+  return typeof type === 'string' && typeof name === 'string' ? { type, name } : undefined;
+};
+
+/**
+ * Type the annotated variables; a nameless annotation types assignedName
+ */
+const applyAnnotations = (state: FlowState, annotations: [string, string][], assignedName?: string): FlowState => {
+  if (annotations.length === 0) {
+    return state;
+  }
+
+  const nextState = new Map(state);
+  for (const [name, type] of annotations) {
+    if (name || assignedName) {
+      nextState.set(name || assignedName as string, type);
+    }
+  }
+  return nextState;
+};
+
+/**
+ * Analyze the body of a control structure, which may be missing
+ */
+const analyzeBody = (body: PhpAstValue | undefined, state: FlowState, resolvers: FlowTypeResolvers): FlowResult => {
+  return isAstNode(body) ? analyzeStatement(body, state, resolvers) : { state, exits: false };
+};
+
+/**
+ * Analyze one statement, following the control structures that can change the variable types
+ */
+const analyzeStatement = (node: PhpAstNode, state: FlowState, resolvers: FlowTypeResolvers): FlowResult => {
+  switch (node.kind) {
+    case 'AST_CONST':
+      if (getAstName(getAstChild(node, 'name')) === CURSOR) {
+        return { state, exits: false, cursorState: state };
+      }
+      return { state, exits: false };
+
+    case 'AST_STMT_LIST':
+      return analyzeStatements(getAstChildren(node), state, resolvers);
+
+    case 'AST_NAMESPACE':
+      return analyzeBody(getAstChild(node, 'stmts'), state, resolvers);
+
+    // Declarations start their own scope; only the cursor matters outside of them
+    case 'AST_CLASS': {
+      const classState = getPropertyTypes(node, resolvers);
+      const className = getAstChild(node, 'name');
+      if (typeof className === 'string') {
+        classState.set(CURRENT_CLASS, className);
+      }
+      const result = analyzeBody(getAstChild(node, 'stmts'), classState, resolvers);
+      return { state, exits: false, cursorState: result.cursorState };
+    }
+
+    case 'AST_METHOD':
+    case 'AST_FUNC_DECL': {
+      // Methods see the class properties passed in as $this->name
+      const entryState = assignParameters(node, node.kind === 'AST_METHOD' ? state : new Map(), resolvers);
+      const result = analyzeBody(getAstChild(node, 'stmts'), entryState, resolvers);
+      return { state, exits: false, cursorState: result.cursorState };
+    }
+
+    case 'AST_ASSIGN':
+    case 'AST_ASSIGN_REF':
+    case 'AST_ASSIGN_OP':
+      return { state: applyAssignment(node, state, resolvers), exits: false };
+
+    case 'AST_UNSET': {
+      const name = getTrackedName(getAstChild(node, 'var'));
+      const nextState = new Map(state);
+      if (name) {
+        nextState.delete(name);
+      }
+      return { state: nextState, exits: false };
+    }
+
+    case 'AST_RETURN':
+    case 'AST_THROW':
+    case 'AST_EXIT':
+      return { state, exits: true };
+
+    case 'AST_CALL':
+      // abort(404) throws an HTTP exception
+      return { state, exits: getAstName(getAstChild(node, 'expr'))?.toLowerCase() === 'abort' };
+
+    case 'AST_IF':
+      return analyzeIf(node, state, resolvers);
+
+    case 'AST_FOREACH':
+    case 'AST_FOR':
+    case 'AST_WHILE': {
+      // The body may run zero or more times
+      const body = analyzeBody(getAstChild(node, 'stmts'), node.kind === 'AST_FOREACH' ? assignForeachVariables(node, state, resolvers) : state, resolvers);
+      if (body.cursorState) {
+        return body;
+      }
+      return { state: body.exits ? state : mergeStates([state, body.state]), exits: false };
+    }
+
+    case 'AST_DO_WHILE':
+      return analyzeBody(getAstChild(node, 'stmts'), state, resolvers);
+
+    case 'AST_SWITCH':
+      return analyzeSwitch(node, state, resolvers);
+
+    case 'AST_TRY':
+      return analyzeTry(node, state, resolvers);
+
+    default:
+      return { state, exits: false };
+  }
+};
+
+/**
+ * Analyze an if/elseif/else chain, narrowing each branch by the conditions before it
+ */
+const analyzeIf = (node: PhpAstNode, state: FlowState, resolvers: FlowTypeResolvers): FlowResult => {
+  // State when all conditions so far were false
+  let remaining = state;
+  let hasElse = false;
+  const outcomes: FlowState[] = [];
+
+  for (const element of getAstChildren(node)) {
+    if (!isAstNode(element)) {
+      continue;
+    }
+
+    const condition = getAstChild(element, 'cond');
+    hasElse = hasElse || condition === null;
+
+    const entryState = narrowState(condition, remaining, true);
+    const result = analyzeBody(getAstChild(element, 'stmts'), entryState, resolvers);
+    if (result.cursorState) {
+      return result;
+    }
+    if (!result.exits) {
+      outcomes.push(result.state);
+    }
+
+    remaining = narrowState(condition, remaining, false);
+  }
+
+  if (!hasElse) {
+    outcomes.push(remaining);
+  }
+
+  // Every branch returned: code after the if is only reachable through narrowing that never holds
+  return outcomes.length > 0 ? { state: mergeStates(outcomes), exits: false } : { state: remaining, exits: true };
+};
+
+/**
+ * Analyze a switch; without a default, the code after it may be reached without entering a case
+ */
+const analyzeSwitch = (node: PhpAstNode, state: FlowState, resolvers: FlowTypeResolvers): FlowResult => {
+  const cases = getAstChild(node, 'stmts');
+  const outcomes: FlowState[] = [];
+  let hasDefault = false;
+
+  for (const switchCase of isAstNode(cases) ? getAstChildren(cases) : []) {
+    if (!isAstNode(switchCase)) {
+      continue;
+    }
+
+    hasDefault = hasDefault || getAstChild(switchCase, 'cond') === null;
+    const result = analyzeBody(getAstChild(switchCase, 'stmts'), state, resolvers);
+    if (result.cursorState) {
+      return result;
+    }
+    if (!result.exits) {
+      outcomes.push(result.state);
+    }
+  }
+
+  if (!hasDefault) {
+    outcomes.push(state);
+  }
+
+  return outcomes.length > 0 ? { state: mergeStates(outcomes), exits: false } : { state, exits: true };
+};
+
+/**
+ * Analyze a try statement with its catch blocks and its finally block
+ */
+const analyzeTry = (node: PhpAstNode, state: FlowState, resolvers: FlowTypeResolvers): FlowResult => {
+  const tryResult = analyzeBody(getAstChild(node, 'try'), state, resolvers);
+  if (tryResult.cursorState) {
+    return tryResult;
+  }
+
+  const outcomes = tryResult.exits ? [] : [tryResult.state];
+  const catches = getAstChild(node, 'catches');
+  // A catch block may start after any part of the try block ran
+  const catchEntryState = mergeStates([state, tryResult.state]);
+
+  for (const catchNode of isAstNode(catches) ? getAstChildren(catches) : []) {
+    if (!isAstNode(catchNode)) {
+      continue;
+    }
+
+    const result = analyzeBody(getAstChild(catchNode, 'stmts'), catchEntryState, resolvers);
+    if (result.cursorState) {
+      return result;
+    }
+    if (!result.exits) {
+      outcomes.push(result.state);
+    }
+  }
+
+  const merged = outcomes.length > 0 ? mergeStates(outcomes) : state;
+  const finallyResult = analyzeBody(getAstChild(node, 'finally'), merged, resolvers);
+  return { ...finallyResult, exits: finallyResult.exits || outcomes.length === 0 };
+};
+
+/**
+ * Combine the states of several paths; a variable's type is the union over the paths that assign it
+ */
+const mergeStates = (states: FlowState[]): FlowState => {
+  if (states.length === 1) {
+    return states[0];
+  }
+
+  const merged: FlowState = new Map();
+  for (const name of new Set(states.flatMap(state => [...state.keys()]))) {
+    const types = states.map(state => state.get(name)).filter((type): type is string => type !== undefined);
+    merged.set(name, joinUnionTypes(types));
+  }
+  return merged;
+};
+
+/**
+ * Name of a plain variable: post for $post
+ */
+const getVariableName = (value: PhpAstValue | undefined): string | undefined => {
+  if (!isAstNode(value, 'AST_VAR')) {
+    return undefined;
+  }
+  const name = getAstChild(value, 'name');
+  return typeof name === 'string' ? name : undefined;
+};
+
+/**
+ * Name under which a value is tracked: the variable name, or this->name for a property of $this
+ */
+const getTrackedName = (value: PhpAstValue | undefined): string | undefined => {
+  if (isAstNode(value, 'AST_PROP') || isAstNode(value, 'AST_NULLSAFE_PROP')) {
+    const property = getAstChild(value, 'prop');
+    return getVariableName(getAstChild(value, 'expr')) === 'this' && typeof property === 'string' ? `this->${property}` : undefined;
+  }
+  return getVariableName(value);
+};
+
+/**
+ * Declared types of the class properties, including promoted constructor parameters
+ */
+const getPropertyTypes = (classNode: PhpAstNode, resolvers: FlowTypeResolvers): FlowState => {
+  const state: FlowState = new Map();
+  const members = getAstChild(classNode, 'stmts');
+
+  for (const member of isAstNode(members) ? getAstChildren(members) : []) {
+    if (isAstNode(member, 'AST_PROP_GROUP')) {
+      const typeHint = printAstType(getAstChild(member, 'type'));
+      const declarations = getAstChild(member, 'props');
+      for (const property of isAstNode(declarations) ? getAstChildren(declarations) : []) {
+        const name = isAstNode(property) ? getAstChild(property, 'name') : undefined;
+        if (!isAstNode(property) || typeof name !== 'string') {
+          continue;
+        }
+
+        const defaultValue = getAstChild(property, 'default');
+        const docComment = getAstChild(property, 'docComment');
+        // A @var tag is more precise than the declared type: Collection<int, Post> rather than Collection
+        const declaredType = (typeof docComment === 'string' ? parseDocVarTags(docComment).pop()?.type : undefined) || typeHint;
+        if (declaredType) {
+          state.set(`this->${name}`, resolvers.resolveTypeHint(declaredType));
+        } else if (defaultValue !== null && defaultValue !== undefined) {
+          state.set(`this->${name}`, inferFlowExpressionType(defaultValue, state, resolvers));
+        }
+      }
+    } else if (isAstNode(member, 'AST_METHOD') && getAstChild(member, 'name') === '__construct') {
+      for (const [name, type] of getParameterTypes(member, resolvers, true)) {
+        state.set(`this->${name}`, type);
+      }
+    }
+  }
+
+  return state;
+};
+
+/**
+ * Declared types of a function's parameters; only the promoted ones (public User $user) when asked
+ */
+const getParameterTypes = (functionNode: PhpAstNode, resolvers: FlowTypeResolvers, promotedOnly = false): [string, string][] => {
+  const params = getAstChild(functionNode, 'params');
+  const types: [string, string][] = [];
+
+  for (const param of isAstNode(params) ? getAstChildren(params) : []) {
+    if (!isAstNode(param) || (promotedOnly && !param.flags.some(flag => flag.startsWith('MODIFIER_')))) {
+      continue;
+    }
+
+    const name = getAstChild(param, 'name');
+    const typeHint = printAstType(getAstChild(param, 'type'));
+    if (typeof name !== 'string' || !typeHint) {
+      continue;
+    }
+
+    const defaultValue = getAstChild(param, 'default');
+    let type = resolvers.resolveTypeHint(typeHint);
+    // User $user = null is implicitly nullable
+    if (isAstNode(defaultValue, 'AST_CONST') && getAstName(getAstChild(defaultValue, 'name'))?.toLowerCase() === 'null') {
+      type = joinUnionTypes([type, 'null']);
+    }
+    types.push([name, param.flags.includes('PARAM_VARIADIC') ? `${type}[]` : type]);
+  }
+
+  return types;
+};
+
+/**
+ * Type the parameters of a function or method from their declarations: show(User $user)
+ */
+const assignParameters = (functionNode: PhpAstNode, state: FlowState, resolvers: FlowTypeResolvers): FlowState => {
+  const nextState = new Map(state);
+  for (const [name, type] of getParameterTypes(functionNode, resolvers)) {
+    nextState.set(name, type);
+  }
+  return nextState;
+};
+
+/**
+ * Type the variable or property of $this an assignment writes: =, ??= and .=
+ */
+const applyAssignment = (node: PhpAstNode, state: FlowState, resolvers: FlowTypeResolvers): FlowState => {
+  const name = getTrackedName(getAstChild(node, 'var'));
+  if (!name) {
+    return state;
+  }
+
+  const expression = getAstChild(node, 'expr');
+  const previousType = state.get(name);
+  let assignedType: string;
+
+  if (node.kind === 'AST_ASSIGN_OP') {
+    if (node.flags.includes('BINARY_COALESCE')) {
+      // $post ??= new Post()
+      assignedType = previousType === undefined
+        ? inferFlowExpressionType(expression, state, resolvers)
+        : joinUnionTypes([removeNullType(previousType), inferFlowExpressionType(expression, state, resolvers)]);
+    } else if (node.flags.includes('BINARY_CONCAT')) {
+      assignedType = 'string';
+    } else {
+      return state;
+    }
+  } else {
+    assignedType = inferFlowExpressionType(expression, state, resolvers);
+    // An untyped reassignment built from the variable itself ($users = $users->filter(...)) keeps its type
+    if (assignedType === 'mixed' && previousType !== undefined && referencesVariable(expression, name)) {
+      return state;
+    }
+  }
+
+  const nextState = new Map(state);
+  nextState.set(name, assignedType);
+  return nextState;
+};
+
+/**
+ * Check whether an expression reads the variable or property of $this tracked under name
+ */
+const referencesVariable = (expression: PhpAstValue | undefined, name: string): boolean => {
+  let found = false;
+  walkAst(expression, (node) => {
+    found = found || getTrackedName(node) === name;
+  });
+  return found;
+};
+
+/**
+ * Type the loop variables: foreach (Collection<Post> as $post)
+ */
+const assignForeachVariables = (node: PhpAstNode, state: FlowState, resolvers: FlowTypeResolvers): FlowState => {
+  const valueName = getVariableName(getAstChild(node, 'value'));
+  const keyName = getVariableName(getAstChild(node, 'key'));
+  const nextState = new Map(state);
+
+  if (valueName) {
+    const iteratedType = removeNullType(inferFlowExpressionType(getAstChild(node, 'expr'), state, resolvers));
+    const itemType = iteratedType.match(/^Collection<(.+)>$/)?.[1] ?? iteratedType.match(/^(.+)\[\]$/)?.[1] ?? 'mixed';
+    nextState.set(valueName, itemType);
+  }
+  if (keyName) {
+    nextState.set(keyName, 'int|string');
+  }
+
+  return nextState;
+};
+
+/**
+ * Infer the type of an expression given the variable types on the current path
+ */
+const inferFlowExpressionType = (expression: PhpAstValue | undefined, state: FlowState, resolvers: FlowTypeResolvers): string => {
+  if (!isAstNode(expression)) {
+    return resolvers.inferValueType(printAstExpression(expression));
+  }
+
+  const child = (name: string) => getAstChild(expression, name);
+  const typeOf = (value: PhpAstValue | undefined) => inferFlowExpressionType(value, state, resolvers);
+
+  switch (expression.kind) {
+    case 'AST_VAR': {
+      const name = getVariableName(expression);
+      return (name && state.get(name === 'this' ? CURRENT_CLASS : name)) || 'mixed';
+    }
+
+    case 'AST_PROP':
+    case 'AST_NULLSAFE_PROP': {
+      const name = getTrackedName(expression);
+      return (name && state.get(name)) || resolvers.inferValueType(printAstExpression(expression));
+    }
+
+    case 'AST_CONST': {
+      const constant = (getAstName(child('name')) || '').toLowerCase();
+      if (constant === 'null') {
+        return 'null';
+      }
+      if (constant === 'true' || constant === 'false') {
+        return 'bool';
+      }
+      return resolvers.inferValueType(printAstExpression(expression));
+    }
+
+    case 'AST_CONDITIONAL':
+      // $a ?: $b yields $a when it is truthy
+      return child('true') === null
+        ? joinUnionTypes([removeNullType(typeOf(child('cond'))), typeOf(child('false'))])
+        : joinUnionTypes([typeOf(child('true')), typeOf(child('false'))]);
+
+    case 'AST_BINARY_OP':
+      if (expression.flags.includes('BINARY_COALESCE')) {
+        return joinUnionTypes([removeNullType(typeOf(child('left'))), typeOf(child('right'))]);
+      }
+      return resolvers.inferValueType(printAstExpression(expression));
+
+    case 'AST_MATCH': {
+      const arms = child('stmts');
+      return joinUnionTypes((isAstNode(arms) ? getAstChildren(arms) : [])
+        .filter((arm): arm is PhpAstNode => isAstNode(arm))
+        .map(arm => typeOf(getAstChild(arm, 'expr'))));
+    }
+
+    case 'AST_ASSIGN':
+      return typeOf(child('expr'));
+
+    case 'AST_METHOD_CALL':
+    case 'AST_NULLSAFE_METHOD_CALL':
+    case 'AST_STATIC_CALL':
+      return inferCallType(expression, state, resolvers) ?? resolvers.inferValueType(printAstExpression(expression));
+
+    default:
+      return resolvers.inferValueType(printAstExpression(expression));
+  }
+};
+
+/**
+ * Type a method call from the return type declared for the method in the receiver's class
+ */
+const inferCallType = (call: PhpAstNode, state: FlowState, resolvers: FlowTypeResolvers): string | undefined => {
+  const methodName = getAstName(getAstChild(call, 'method'));
+  if (!methodName) {
+    return undefined;
+  }
+
+  let receiverType: string | undefined;
+  if (call.kind === 'AST_STATIC_CALL') {
+    const className = getAstName(getAstChild(call, 'class'));
+    // self::, static:: and parent:: calls are looked up from the current class
+    receiverType = className && ['self', 'static', 'parent'].includes(className.toLowerCase()) ? state.get(CURRENT_CLASS) : className;
+  } else {
+    receiverType = inferFlowExpressionType(getAstChild(call, 'expr'), state, resolvers);
+  }
+
+  // Generic types such as Collection<Post> are left to the value inference
+  const receiverClasses = splitUnionType(receiverType || '').filter(type => type !== 'null');
+  if (receiverClasses.length === 0 || !receiverClasses.every(type => /^\\?[A-Z]\w*(?:\\\w+)*$/.test(type))) {
+    return undefined;
+  }
+
+  const returnTypes = receiverClasses.map(className => resolvers.resolveMethodType(className, methodName));
+  if (returnTypes.some(returnType => returnType === undefined)) {
+    return undefined;
+  }
+
+  // $post?->author() is null when $post is
+  const isNullsafe = call.kind === 'AST_NULLSAFE_METHOD_CALL' && splitUnionType(receiverType || '').includes('null');
+  return joinUnionTypes([...returnTypes as string[], ...(isNullsafe ? ['null'] : [])]);
+};
+
+/**
+ * Narrow the variable types for the branch where condition is truthy (or falsy), e.g. after
+ * `if (!$post) { return; }` the post is no longer null
+ */
+const narrowState = (condition: PhpAstValue | undefined, state: FlowState, truthy: boolean): FlowState => {
+  if (!isAstNode(condition)) {
+    return state;
+  }
+
+  const child = (name: string) => getAstChild(condition, name);
+  const withoutNull = (value: PhpAstValue | undefined): FlowState => {
+    const name = getTrackedName(value);
+    const type = name ? state.get(name) : undefined;
+    if (!name || type === undefined) {
+      return state;
+    }
+    const nextState = new Map(state);
+    nextState.set(name, removeNullType(type));
+    return nextState;
+  };
+  const isNull = (value: PhpAstValue | undefined) => isAstNode(value, 'AST_CONST') && getAstName(getAstChild(value, 'name'))?.toLowerCase() === 'null';
+
+  switch (condition.kind) {
+    case 'AST_VAR':
+      return truthy ? withoutNull(condition) : state;
+
+    case 'AST_ISSET':
+      return truthy ? withoutNull(child('var')) : state;
+
+    case 'AST_EMPTY':
+      return truthy ? state : withoutNull(child('expr'));
+
+    case 'AST_UNARY_OP':
+      return condition.flags.includes('UNARY_BOOL_NOT') ? narrowState(child('expr'), state, !truthy) : state;
+
+    case 'AST_CALL': {
+      const functionName = getAstName(child('expr'))?.toLowerCase();
+      const [argument] = getAstCallArguments(condition);
+      return functionName === 'is_null' && !truthy ? withoutNull(argument) : state;
+    }
+
+    case 'AST_INSTANCEOF': {
+      const name = getTrackedName(child('expr'));
+      const className = getAstName(child('class'))?.split('\\').pop();
+      if (!truthy || !name || !className) {
+        return state;
+      }
+      const nextState = new Map(state);
+      nextState.set(name, className);
+      return nextState;
+    }
+
+    case 'AST_BINARY_OP': {
+      const left = child('left');
+      const right = child('right');
+
+      if (condition.flags.includes('BINARY_BOOL_AND')) {
+        return truthy ? narrowState(right, narrowState(left, state, true), true) : state;
+      }
+      if (condition.flags.includes('BINARY_BOOL_OR')) {
+        return truthy ? state : narrowState(right, narrowState(left, state, false), false);
+      }
+
+      const comparedValue = isNull(right) ? left : isNull(left) ? right : undefined;
+      if (comparedValue === undefined) {
+        return state;
+      }
+      const isEquality = condition.flags.some(flag => flag === 'BINARY_IS_IDENTICAL' || flag === 'BINARY_IS_EQUAL');
+      const isInequality = condition.flags.some(flag => flag === 'BINARY_IS_NOT_IDENTICAL' || flag === 'BINARY_IS_NOT_EQUAL');
+      // $post !== null, or the false branch of $post === null
+      return (isInequality && truthy) || (isEquality && !truthy) ? withoutNull(comparedValue) : state;
+    }
+
+    default:
+      return state;
+  }
+};
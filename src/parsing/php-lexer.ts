@@ -0,0 +1,304 @@
+/**
+ * Pure TypeScript PHP tokenizer used when PHP-WASM is not available
+ */
+
+export type PhpTokenType =
+  | 'inline_html'
+  | 'open_tag'
+  | 'close_tag'
+  | 'variable'
+  | 'identifier'
+  | 'string'
+  | 'interpolated_string'
+  | 'number'
+  | 'cast'
+  | 'doc_comment'
+  | 'symbol'
+  | 'eof';
+
+/**
+ * Token with its decoded value: variables without `$`, strings without quotes (escapes resolved
+ * unless the string interpolates), casts as the normalized type name
+ */
+export type PhpToken = {
+  type: PhpTokenType;
+  value: string;
+  line: number;
+  offset: number;
+};
+
+// Longest first so that e.g. `??=` wins over `??`
+const SYMBOLS = [
+  '<<=', '>>=', '**=', '...', '<=>', '===', '!==', '??=', '?->',
+  '<<', '>>', '**', '++', '--', '->', '=>', '::', '==', '!=', '<>', '<=', '>=', '&&', '||', '??',
+  '+=', '-=', '*=', '/=', '.=', '%=', '&=', '|=', '^=', '#[',
+  '+', '-', '*', '/', '%', '=', '<', '>', '!', '.', '(', ')', '[', ']', '{', '}', ',', ';',
+  '?', ':', '&', '|', '^', '~', '@', '$', '\\'
+];
+
+const CAST_NAMES: Record<string, string> = {
+  int: 'int',
+  integer: 'int',
+  bool: 'bool',
+  boolean: 'bool',
+  float: 'float',
+  double: 'float',
+  real: 'float',
+  string: 'string',
+  binary: 'string',
+  array: 'array',
+  object: 'object',
+  unset: 'unset'
+};
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  v: '\v',
+  e: '\x1b',
+  f: '\f',
+  '0': '\0',
+  '\\': '\\',
+  '$': '$',
+  '"': '"'
+};
+
+const IDENTIFIER_START = /[A-Za-z_\x80-\uffff]/;
+const IDENTIFIER = /^[A-Za-z_\x80-\uffff][\w\x80-\uffff]*/;
+const QUALIFIED_NAME = /^\\?[A-Za-z_\x80-\uffff][\w\x80-\uffff]*(?:\\[A-Za-z_\x80-\uffff][\w\x80-\uffff]*)*/;
+const NUMBER = /^(?:0[xX][\da-fA-F_]+|0[bB][01_]+|(?:\d[\d_]*)?\.\d[\d_]*(?:[eE][+-]?\d+)?|\d[\d_]*(?:\.(?!\.)[\d_]*)?(?:[eE][+-]?\d+)?)/;
+const CAST = /^\(\s*([A-Za-z]+)\s*\)/;
+const INTERPOLATION = /(?:^|[^\\])(?:\\\\)*(?:\$[A-Za-z_{]|\{\$)/;
+
+type LexerState = {
+  code: string;
+  offset: number;
+  line: number;
+  tokens: PhpToken[];
+};
+
+/**
+ * Split PHP source into tokens. Whitespace and comments are dropped, doc comments are kept.
+ */
+export const tokenizePhp = (code: string): PhpToken[] => {
+  const state: LexerState = { code, offset: 0, line: 1, tokens: [] };
+
+  while (state.offset < code.length) {
+    // Everything outside <?php ... ?> is inline HTML
+    const tagMatch = /<\?php\b|<\?=/.exec(code.slice(state.offset));
+    const tagStart = tagMatch ? state.offset + tagMatch.index : code.length;
+    if (tagStart > state.offset) {
+      pushToken(state, 'inline_html', code.slice(state.offset, tagStart), tagStart);
+    }
+    if (!tagMatch) {
+      break;
+    }
+
+    pushToken(state, 'open_tag', tagMatch[0], tagStart + tagMatch[0].length);
+    tokenizePhpBlock(state);
+
+    if (code.startsWith('?>', state.offset)) {
+      // The newline directly after ?> belongs to the tag
+      pushToken(state, 'close_tag', '?>', state.offset + (code[state.offset + 2] === '\n' ? 3 : 2));
+    }
+  }
+
+  state.tokens.push({ type: 'eof', value: '', line: state.line, offset: code.length });
+  return state.tokens;
+};
+
+/**
+ * Add a token spanning from the current offset to end, and move past it
+ */
+const pushToken = (state: LexerState, type: PhpTokenType, value: string, end: number) => {
+  state.tokens.push({ type, value, line: state.line, offset: state.offset });
+  skipTo(state, end);
+};
+
+/**
+ * Move to end without emitting a token, keeping the line count
+ */
+const skipTo = (state: LexerState, end: number) => {
+  for (let i = state.offset; i < end; i++) {
+    if (state.code[i] === '\n') {
+      state.line++;
+    }
+  }
+  state.offset = end;
+};
+
+/**
+ * Tokenize PHP code until ?> or the end of the source
+ */
+const tokenizePhpBlock = (state: LexerState) => {
+  const code = state.code;
+
+  while (state.offset < code.length) {
+    const offset = state.offset;
+    const char = code[offset];
+    const rest = code.slice(offset, offset + 3);
+
+    if (/\s/.test(char)) {
+      let end = offset;
+      while (end < code.length && /\s/.test(code[end])) {
+        end++;
+      }
+      skipTo(state, end);
+      continue;
+    }
+
+    if (rest.startsWith('?>')) {
+      return;
+    }
+
+    // Comments
+    if (rest.startsWith('/*')) {
+      const end = code.indexOf('*/', offset + 2);
+      const commentEnd = end === -1 ? code.length : end + 2;
+      if (rest === '/**' && code[offset + 3] !== '/') {
+        pushToken(state, 'doc_comment', code.slice(offset, commentEnd), commentEnd);
+      } else {
+        skipTo(state, commentEnd);
+      }
+      continue;
+    }
+    if (rest.startsWith('//') || (char === '#' && code[offset + 1] !== '[')) {
+      let end = offset;
+      while (end < code.length && code[end] !== '\n' && !code.startsWith('?>', end)) {
+        end++;
+      }
+      skipTo(state, end);
+      continue;
+    }
+
+    // Variables
+    if (char === '$' && IDENTIFIER_START.test(code[offset + 1] || '')) {
+      const name = code.slice(offset + 1).match(IDENTIFIER)?.[0] ?? '';
+      pushToken(state, 'variable', name, offset + 1 + name.length);
+      continue;
+    }
+
+    // Identifiers, keywords and qualified names
+    if (IDENTIFIER_START.test(char) || (char === '\\' && IDENTIFIER_START.test(code[offset + 1] || ''))) {
+      const name = code.slice(offset).match(QUALIFIED_NAME)?.[0] ?? char;
+      pushToken(state, 'identifier', name, offset + name.length);
+      continue;
+    }
+
+    // Numbers
+    const numberMatch = /[\d.]/.test(char) ? code.slice(offset).match(NUMBER) : null;
+    if (numberMatch && numberMatch[0] !== '.') {
+      pushToken(state, 'number', numberMatch[0].replace(/_/g, ''), offset + numberMatch[0].length);
+      continue;
+    }
+
+    // Strings
+    if (char === '\'') {
+      const end = findStringEnd(code, offset);
+      pushToken(state, 'string', code.slice(offset + 1, end).replace(/\\([\\'])/g, '$1'), end + 1);
+      continue;
+    }
+    if (char === '"' || char === '`') {
+      const end = findStringEnd(code, offset);
+      pushDoubleQuoted(state, code.slice(offset + 1, end), end + 1);
+      continue;
+    }
+    if (rest === '<<<') {
+      tokenizeHeredoc(state);
+      continue;
+    }
+
+    // Casts: (int), ( string ), ...
+    const castMatch = char === '(' ? code.slice(offset, offset + 12).match(CAST) : null;
+    if (castMatch && CAST_NAMES[castMatch[1].toLowerCase()]) {
+      pushToken(state, 'cast', CAST_NAMES[castMatch[1].toLowerCase()], offset + castMatch[0].length);
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => code.startsWith(candidate, offset)) || char;
+    pushToken(state, 'symbol', symbol, offset + symbol.length);
+  }
+};
+
+/**
+ * Push a double-quoted string body, resolving escapes when it does not interpolate
+ */
+const pushDoubleQuoted = (state: LexerState, body: string, end: number) => {
+  if (INTERPOLATION.test(body)) {
+    pushToken(state, 'interpolated_string', body, end);
+  } else {
+    pushToken(state, 'string', unescapeDoubleQuoted(body), end);
+  }
+};
+
+/**
+ * Resolve the escape sequences of a double-quoted string
+ */
+export const unescapeDoubleQuoted = (body: string): string => {
+  return body.replace(/\\(u\{[\da-fA-F]+\}|x[\da-fA-F]{1,2}|[0-7]{1,3}|.)/g, (match, escape: string) => {
+    if (escape.startsWith('u{')) {
+      return String.fromCodePoint(parseInt(escape.slice(2, -1), 16));
+    }
+    if (escape.startsWith('x') && escape.length > 1) {
+      return String.fromCharCode(parseInt(escape.slice(1), 16));
+    }
+    if (/^[0-7]+$/.test(escape) && escape !== '0') {
+      return String.fromCharCode(parseInt(escape, 8));
+    }
+    return ESCAPES[escape] ?? match;
+  });
+};
+
+/**
+ * Tokenize a heredoc or nowdoc starting at the current offset
+ */
+const tokenizeHeredoc = (state: LexerState) => {
+  const code = state.code;
+  const headerMatch = code.slice(state.offset).match(/^<<<[ \t]*(['"]?)([A-Za-z_]\w*)\1\r?\n/);
+  if (!headerMatch) {
+    pushToken(state, 'symbol', '<<', state.offset + 2);
+    return;
+  }
+
+  const isNowdoc = headerMatch[1] === '\'';
+  const label = headerMatch[2];
+  const bodyStart = state.offset + headerMatch[0].length;
+
+  // The closing label may be indented (PHP 7.3+); that indentation is removed from every line
+  const closingPattern = new RegExp(`(^|\\n)([ \\t]*)${label}(?![A-Za-z0-9_])`, 'g');
+  closingPattern.lastIndex = bodyStart - 1;
+  const closingMatch = closingPattern.exec(code);
+  if (!closingMatch) {
+    pushToken(state, 'string', code.slice(bodyStart), code.length);
+    return;
+  }
+
+  const indentation = closingMatch[2];
+  const end = closingMatch.index + closingMatch[0].length;
+  const body = code.slice(bodyStart, Math.max(bodyStart, closingMatch.index))
+    .split('\n')
+    .map(bodyLine => bodyLine.startsWith(indentation) ? bodyLine.slice(indentation.length) : bodyLine)
+    .join('\n');
+
+  if (isNowdoc) {
+    pushToken(state, 'string', body, end);
+  } else {
+    pushDoubleQuoted(state, body, end);
+  }
+};
+
+/**
+ * Find the closing quote of the string starting at openIndex, or the end of the source
+ */
+const findStringEnd = (code: string, openIndex: number): number => {
+  const quote = code[openIndex];
+  for (let i = openIndex + 1; i < code.length; i++) {
+    if (code[i] === '\\') {
+      i++;
+    } else if (code[i] === quote) {
+      return i;
+    }
+  }
+  return code.length;
+};
@@ -0,0 +1,356 @@
+/**
+ * Columns of the workspace's tables, worked out by replaying the up() methods of database/migrations in order
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import {
+  PhpAstNode,
+  PhpAstValue,
+  findClassMethods,
+  getAstArrayEntries,
+  getAstCallArguments,
+  getAstChild,
+  getAstChildren,
+  getAstName,
+  isAstNode,
+  walkAst
+} from './php-ast';
+import { parsePhp } from './php-parser';
+import { toSnakeCase } from './php-class';
+
+/**
+ * Table name => column name => PHP type; nullable columns have a ?type
+ */
+type MigrationTables = {
+  root: string;
+  tables: Map<string, Record<string, string>>;
+};
+
+// Blueprint methods adding one column named by their first argument, and the type Eloquent reads it as
+const COLUMN_TYPES: Record<string, string> = {
+  id: 'int',
+  increments: 'int',
+  tinyIncrements: 'int',
+  smallIncrements: 'int',
+  mediumIncrements: 'int',
+  bigIncrements: 'int',
+  integer: 'int',
+  tinyInteger: 'int',
+  smallInteger: 'int',
+  mediumInteger: 'int',
+  bigInteger: 'int',
+  unsignedInteger: 'int',
+  unsignedTinyInteger: 'int',
+  unsignedSmallInteger: 'int',
+  unsignedMediumInteger: 'int',
+  unsignedBigInteger: 'int',
+  foreignId: 'int',
+  year: 'int',
+  float: 'float',
+  double: 'float',
+  // PDO returns decimals as strings, so they stay strings until cast
+  decimal: 'string',
+  unsignedDecimal: 'string',
+  boolean: 'bool',
+  char: 'string',
+  string: 'string',
+  tinyText: 'string',
+  text: 'string',
+  mediumText: 'string',
+  longText: 'string',
+  enum: 'string',
+  set: 'string',
+  binary: 'string',
+  json: 'string',
+  jsonb: 'string',
+  uuid: 'string',
+  ulid: 'string',
+  foreignUuid: 'string',
+  foreignUlid: 'string',
+  ipAddress: 'string',
+  macAddress: 'string',
+  // Only created_at, updated_at and deleted_at are Carbon without a cast
+  date: 'string',
+  dateTime: 'string',
+  dateTimeTz: 'string',
+  time: 'string',
+  timeTz: 'string',
+  timestamp: 'string',
+  timestampTz: 'string'
+};
+
+// morphs('taggable') adds taggable_id and taggable_type; the id type depends on the variant
+const MORPH_ID_TYPES: Record<string, string> = {
+  morphs: 'int',
+  nullableMorphs: '?int',
+  uuidMorphs: 'string',
+  nullableUuidMorphs: '?string',
+  ulidMorphs: 'string',
+  nullableUlidMorphs: '?string'
+};
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  person: 'people',
+  child: 'children',
+  man: 'men',
+  woman: 'women'
+};
+
+let migrationTables: MigrationTables | undefined;
+
+/**
+ * Get the columns of a table as its migrations leave it: column name => PHP type, ?type when nullable
+ */
+export const findTableColumns = (tableName: string): Record<string, string> => {
+  return getMigrationTables()?.tables.get(tableName) ?? {};
+};
+
+/**
+ * Forget the parsed migrations, so that they are read again on the next lookup
+ */
+export const clearMigrationTables = (): void => {
+  migrationTables = undefined;
+};
+
+/**
+ * Get the table Eloquent uses for a model without a $table property: the plural snake case of its name
+ * (BlogPost => blog_posts)
+ */
+export const getConventionalTableName = (className: string): string => {
+  const snakeName = toSnakeCase(className.split('\\').pop() || className);
+  const words = snakeName.split('_');
+  const lastWord = words.pop() || '';
+
+  let pluralWord = `${lastWord}s`;
+  if (IRREGULAR_PLURALS[lastWord]) {
+    pluralWord = IRREGULAR_PLURALS[lastWord];
+  } else if (/[^aeiou]y$/.test(lastWord)) {
+    pluralWord = `${lastWord.slice(0, -1)}ies`;
+  } else if (/(s|x|z|ch|sh)$/.test(lastWord)) {
+    pluralWord = `${lastWord}es`;
+  }
+
+  return [...words, pluralWord].join('_');
+};
+
+/**
+ * Get the tables of the workspace, replaying the migrations on first use
+ */
+const getMigrationTables = (): MigrationTables | undefined => {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath;
+  if (!workspaceRoot) {
+    return undefined;
+  }
+  if (migrationTables?.root === workspaceRoot) {
+    return migrationTables;
+  }
+
+  const tables = new Map<string, Record<string, string>>();
+  const migrationsPath = `${workspaceRoot}/database/migrations`;
+  // Migrations run in the order of their timestamped file names
+  const fileNames = fs.existsSync(migrationsPath)
+    ? fs.readdirSync(migrationsPath).filter(name => name.endsWith('.php')).sort()
+    : [];
+
+  for (const fileName of fileNames) {
+    try {
+      applyMigration(tables, fs.readFileSync(`${migrationsPath}/${fileName}`, 'utf-8'));
+    } catch (error) {
+      console.error(`Error parsing migration ${fileName}:`, error);
+    }
+  }
+
+  migrationTables = { root: workspaceRoot, tables };
+  return migrationTables;
+};
+
+/**
+ * Apply the Schema calls of a migration's up() method: create, table, rename, drop, dropIfExists and dropColumns
+ */
+const applyMigration = (tables: Map<string, Record<string, string>>, phpCode: string) => {
+  const upMethod = findClassMethods(parsePhp(phpCode)).find(method => method.name === 'up');
+
+  walkAst(upMethod?.node, (node) => {
+    if (!isSchemaCall(node)) {
+      return;
+    }
+
+    const args = getAstCallArguments(node);
+    const [tableName, secondArgument] = args;
+    if (typeof tableName !== 'string') {
+      return;
+    }
+
+    switch (getAstName(getAstChild(node, 'method'))) {
+      case 'create':
+        tables.set(tableName, {});
+        applyBlueprint(tables.get(tableName) ?? {}, secondArgument);
+        break;
+      case 'table':
+        tables.set(tableName, tables.get(tableName) ?? {});
+        applyBlueprint(tables.get(tableName) ?? {}, secondArgument);
+        break;
+      case 'rename':
+        if (typeof secondArgument === 'string' && tables.has(tableName)) {
+          tables.set(secondArgument, tables.get(tableName) ?? {});
+          tables.delete(tableName);
+        }
+        break;
+      case 'drop':
+      case 'dropIfExists':
+        tables.delete(tableName);
+        break;
+      case 'dropColumns':
+        for (const columnName of readStrings(args.slice(1))) {
+          delete tables.get(tableName)?.[columnName];
+        }
+        break;
+    }
+  });
+};
+
+/**
+ * Check whether a node is a call on the Schema facade: Schema::create(...) or Schema::connection('x')->create(...)
+ */
+const isSchemaCall = (node: PhpAstNode): boolean => {
+  if (node.kind === 'AST_METHOD_CALL') {
+    const receiver = getAstChild(node, 'expr');
+    return isAstNode(receiver) && getAstName(getAstChild(receiver, 'method')) === 'connection' && isSchemaCall(receiver);
+  }
+
+  return node.kind === 'AST_STATIC_CALL' && getAstName(getAstChild(node, 'class'))?.split('\\').pop() === 'Schema';
+};
+
+/**
+ * Apply the column statements of a Blueprint closure: function (Blueprint $table) { $table->string('title'); }
+ */
+const applyBlueprint = (columns: Record<string, string>, closure: PhpAstValue | undefined) => {
+  if (!isAstNode(closure, 'AST_CLOSURE') && !isAstNode(closure, 'AST_ARROW_FUNC')) {
+    return;
+  }
+
+  const params = getAstChild(closure, 'params');
+  const [tableParam] = isAstNode(params) ? getAstChildren(params) : [];
+  const tableVariable = isAstNode(tableParam) ? getAstName(getAstChild(tableParam, 'name')) : undefined;
+  if (!tableVariable) {
+    return;
+  }
+
+  // fn (Blueprint $table) => $table->string('title') holds its one statement as the returned expression
+  const body = getAstChild(closure, 'stmts');
+  if (isAstNode(body, 'AST_RETURN')) {
+    applyColumnStatement(columns, getAstChild(body, 'expr') ?? null, tableVariable);
+    return;
+  }
+
+  // Statements of the closure body, including those inside if blocks
+  walkAst(body, (node) => {
+    if (node.kind === 'AST_STMT_LIST') {
+      for (const statement of getAstChildren(node)) {
+        applyColumnStatement(columns, statement, tableVariable);
+      }
+    }
+  });
+};
+
+/**
+ * Apply one $table->...() chain: the first call adds, drops or renames columns, the others modify it (nullable)
+ */
+const applyColumnStatement = (columns: Record<string, string>, statement: PhpAstValue, tableVariable: string) => {
+  const calls: PhpAstNode[] = [];
+  let receiver: PhpAstValue | undefined = statement;
+  while (isAstNode(receiver, 'AST_METHOD_CALL')) {
+    calls.unshift(receiver);
+    receiver = getAstChild(receiver, 'expr');
+  }
+  if (!isAstNode(receiver, 'AST_VAR') || getAstChild(receiver, 'name') !== tableVariable || calls.length === 0) {
+    return;
+  }
+
+  const [builder, ...modifiers] = calls;
+  const method = getAstName(getAstChild(builder, 'method')) || '';
+  const args = getAstCallArguments(builder);
+  const columnName = typeof args[0] === 'string' ? args[0] : undefined;
+  const isNullable = modifiers.some(modifier => {
+    const [nullableArgument] = getAstCallArguments(modifier);
+    const isFalse = isAstNode(nullableArgument, 'AST_CONST')
+      && getAstName(getAstChild(nullableArgument, 'name'))?.toLowerCase() === 'false';
+    return getAstName(getAstChild(modifier, 'method')) === 'nullable' && !isFalse;
+  });
+
+  switch (method) {
+    case 'timestamps':
+    case 'timestampsTz':
+    case 'nullableTimestamps':
+    case 'datetimes':
+      columns.created_at = '?Carbon';
+      columns.updated_at = '?Carbon';
+      return;
+    case 'softDeletes':
+    case 'softDeletesTz':
+    case 'softDeletesDatetime':
+      columns[columnName ?? 'deleted_at'] = '?Carbon';
+      return;
+    case 'rememberToken':
+      columns.remember_token = '?string';
+      return;
+    case 'foreignIdFor': {
+      // foreignIdFor(User::class) adds user_id unless the column is named
+      const modelClass = isAstNode(args[0], 'AST_CLASS_NAME') ? getAstName(getAstChild(args[0], 'class')) : undefined;
+      const foreignKey = typeof args[1] === 'string' ? args[1] : modelClass && `${toSnakeCase(modelClass.split('\\').pop() || modelClass)}_id`;
+      if (foreignKey) {
+        columns[foreignKey] = isNullable ? '?int' : 'int';
+      }
+      return;
+    }
+    case 'dropColumn':
+      for (const dropped of readStrings(args)) {
+        delete columns[dropped];
+      }
+      return;
+    case 'dropTimestamps':
+    case 'dropTimestampsTz':
+      delete columns.created_at;
+      delete columns.updated_at;
+      return;
+    case 'dropSoftDeletes':
+    case 'dropSoftDeletesTz':
+      delete columns[columnName ?? 'deleted_at'];
+      return;
+    case 'dropRememberToken':
+      delete columns.remember_token;
+      return;
+    case 'dropMorphs':
+      if (columnName) {
+        delete columns[`${columnName}_id`];
+        delete columns[`${columnName}_type`];
+      }
+      return;
+    case 'renameColumn':
+      if (columnName && typeof args[1] === 'string' && columnName in columns) {
+        columns[args[1]] = columns[columnName];
+        delete columns[columnName];
+      }
+      return;
+  }
+
+  if (MORPH_ID_TYPES[method] && columnName) {
+    columns[`${columnName}_id`] = MORPH_ID_TYPES[method];
+    columns[`${columnName}_type`] = method.startsWith('nullable') ? '?string' : 'string';
+    return;
+  }
+
+  // id() names its column id; ->change() replaces the column like a new definition
+  const name = method === 'id' ? columnName ?? 'id' : columnName;
+  if (COLUMN_TYPES[method] && name) {
+    columns[name] = isNullable ? `?${COLUMN_TYPES[method]}` : COLUMN_TYPES[method];
+  }
+};
+
+/**
+ * Read the column names of dropColumn('a', 'b') or dropColumn(['a', 'b'])
+ */
+const readStrings = (args: PhpAstValue[]): string[] => {
+  return args.flatMap(arg => isAstNode(arg, 'AST_ARRAY') ? getAstArrayEntries(arg).map(([, value]) => value) : [arg])
+    .filter((value): value is string => typeof value === 'string');
+};
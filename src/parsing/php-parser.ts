@@ -0,0 +1,1715 @@
+/**
+ * Pure TypeScript PHP parser producing the same AST shape as the PHP-WASM export (see php-ast.ts),
+ * so the AST traversal also works in basic mode
+ */
+import { PhpAstNode, PhpAstValue, isAstNode } from './php-ast';
+import { PhpToken, tokenizePhp, unescapeDoubleQuoted } from './php-lexer';
+
+type ParserState = {
+  tokens: PhpToken[];
+  position: number;
+  // Doc comment preceding the token at a given index
+  docComments: Map<number, string>;
+};
+
+type BinaryOperator = {
+  precedence: number;
+  rightAssociative?: boolean;
+  flag: string;
+};
+
+const BINARY_OPERATORS: Record<string, BinaryOperator> = {
+  'or': { precedence: 1, flag: 'BINARY_BOOL_OR' },
+  'xor': { precedence: 2, flag: 'BINARY_BOOL_XOR' },
+  'and': { precedence: 3, flag: 'BINARY_BOOL_AND' },
+  '??': { precedence: 6, rightAssociative: true, flag: 'BINARY_COALESCE' },
+  '||': { precedence: 7, flag: 'BINARY_BOOL_OR' },
+  '&&': { precedence: 8, flag: 'BINARY_BOOL_AND' },
+  '|': { precedence: 9, flag: 'BINARY_BITWISE_OR' },
+  '^': { precedence: 10, flag: 'BINARY_BITWISE_XOR' },
+  '&': { precedence: 11, flag: 'BINARY_BITWISE_AND' },
+  '==': { precedence: 12, flag: 'BINARY_IS_EQUAL' },
+  '!=': { precedence: 12, flag: 'BINARY_IS_NOT_EQUAL' },
+  '<>': { precedence: 12, flag: 'BINARY_IS_NOT_EQUAL' },
+  '===': { precedence: 12, flag: 'BINARY_IS_IDENTICAL' },
+  '!==': { precedence: 12, flag: 'BINARY_IS_NOT_IDENTICAL' },
+  '<=>': { precedence: 12, flag: 'BINARY_SPACESHIP' },
+  '<': { precedence: 13, flag: 'BINARY_IS_SMALLER' },
+  '<=': { precedence: 13, flag: 'BINARY_IS_SMALLER_OR_EQUAL' },
+  '>': { precedence: 13, flag: 'BINARY_IS_GREATER' },
+  '>=': { precedence: 13, flag: 'BINARY_IS_GREATER_OR_EQUAL' },
+  '.': { precedence: 14, flag: 'BINARY_CONCAT' },
+  '<<': { precedence: 15, flag: 'BINARY_SHIFT_LEFT' },
+  '>>': { precedence: 15, flag: 'BINARY_SHIFT_RIGHT' },
+  '+': { precedence: 16, flag: 'BINARY_ADD' },
+  '-': { precedence: 16, flag: 'BINARY_SUB' },
+  '*': { precedence: 17, flag: 'BINARY_MUL' },
+  '/': { precedence: 17, flag: 'BINARY_DIV' },
+  '%': { precedence: 17, flag: 'BINARY_MOD' },
+  '**': { precedence: 21, rightAssociative: true, flag: 'BINARY_POW' }
+};
+
+const ASSIGNMENT_OPERATORS: Record<string, string | null> = {
+  '=': null,
+  '+=': 'BINARY_ADD',
+  '-=': 'BINARY_SUB',
+  '*=': 'BINARY_MUL',
+  '/=': 'BINARY_DIV',
+  '.=': 'BINARY_CONCAT',
+  '%=': 'BINARY_MOD',
+  '**=': 'BINARY_POW',
+  '&=': 'BINARY_BITWISE_AND',
+  '|=': 'BINARY_BITWISE_OR',
+  '^=': 'BINARY_BITWISE_XOR',
+  '<<=': 'BINARY_SHIFT_LEFT',
+  '>>=': 'BINARY_SHIFT_RIGHT',
+  '??=': 'BINARY_COALESCE'
+};
+
+const ASSIGNMENT_PRECEDENCE = 4;
+const TERNARY_PRECEDENCE = 5;
+const INSTANCEOF_PRECEDENCE = 19;
+const UNARY_PRECEDENCE = 20;
+
+const TYPE_FLAGS: Record<string, string> = {
+  array: 'TYPE_ARRAY',
+  callable: 'TYPE_CALLABLE',
+  bool: 'TYPE_BOOL',
+  int: 'TYPE_LONG',
+  float: 'TYPE_DOUBLE',
+  string: 'TYPE_STRING',
+  iterable: 'TYPE_ITERABLE',
+  object: 'TYPE_OBJECT',
+  null: 'TYPE_NULL',
+  false: 'TYPE_FALSE',
+  true: 'TYPE_TRUE',
+  void: 'TYPE_VOID',
+  mixed: 'TYPE_MIXED',
+  never: 'TYPE_NEVER',
+  static: 'TYPE_STATIC'
+};
+
+const CAST_FLAGS: Record<string, string> = {
+  int: 'TYPE_LONG',
+  bool: 'TYPE_BOOL',
+  float: 'TYPE_DOUBLE',
+  string: 'TYPE_STRING',
+  array: 'TYPE_ARRAY',
+  object: 'TYPE_OBJECT',
+  unset: 'TYPE_NULL'
+};
+
+const MODIFIER_FLAGS: Record<string, string> = {
+  public: 'MODIFIER_PUBLIC',
+  protected: 'MODIFIER_PROTECTED',
+  private: 'MODIFIER_PRIVATE',
+  static: 'MODIFIER_STATIC',
+  abstract: 'MODIFIER_ABSTRACT',
+  final: 'MODIFIER_FINAL',
+  readonly: 'MODIFIER_READONLY',
+  var: 'MODIFIER_PUBLIC'
+};
+
+const MAGIC_CONSTANTS: Record<string, string> = {
+  __line__: 'MAGIC_LINE',
+  __file__: 'MAGIC_FILE',
+  __dir__: 'MAGIC_DIR',
+  __namespace__: 'MAGIC_NAMESPACE',
+  __function__: 'MAGIC_FUNCTION',
+  __method__: 'MAGIC_METHOD',
+  __class__: 'MAGIC_CLASS',
+  __trait__: 'MAGIC_TRAIT'
+};
+
+const INCLUDE_FLAGS: Record<string, string> = {
+  include: 'EXEC_INCLUDE',
+  include_once: 'EXEC_INCLUDE_ONCE',
+  require: 'EXEC_REQUIRE',
+  require_once: 'EXEC_REQUIRE_ONCE',
+  eval: 'EXEC_EVAL'
+};
+
+/**
+ * Parse PHP source into an AST. Statements that cannot be parsed are skipped rather than failing the whole file.
+ */
+export const parsePhp = (code: string): PhpAstNode => {
+  return parsePhpTokens(tokenizePhp(code));
+};
+
+/**
+ * Parse an already tokenized PHP source, see tokenizePhp()
+ */
+export const parsePhpTokens = (tokens: PhpToken[]): PhpAstNode => {
+  return parseStatementList(createParserState(tokens), () => false, 1);
+};
+
+/**
+ * Parse a standalone PHP expression, e.g. `$user->name`
+ */
+export const parsePhpExpression = (source: string, line = 1): PhpAstValue => {
+  const tokens = tokenizePhp(`<?php ${source};`).map(token => ({ ...token, line: token.line + line - 1 }));
+  return parseExpression(createParserState(tokens));
+};
+
+/**
+ * Drop tags and doc comments from the token stream, remembering which token each doc comment precedes
+ */
+const createParserState = (rawTokens: PhpToken[]): ParserState => {
+  const state: ParserState = { tokens: [], position: 0, docComments: new Map() };
+  let pendingDocComment: string | null = null;
+
+  for (const token of rawTokens) {
+    if (token.type === 'doc_comment') {
+      pendingDocComment = token.value;
+      continue;
+    }
+    if (token.type === 'open_tag') {
+      // <?= is a short echo
+      if (token.value === '<?=') {
+        state.tokens.push({ ...token, type: 'identifier', value: 'echo' });
+      }
+      continue;
+    }
+    if (pendingDocComment) {
+      state.docComments.set(state.tokens.length, pendingDocComment);
+      pendingDocComment = null;
+    }
+    // ?> terminates a statement like a semicolon
+    state.tokens.push(token.type === 'close_tag' ? { ...token, type: 'symbol', value: ';' } : token);
+  }
+
+  return state;
+};
+
+// ---------------------------------------------------------------------------
+// Token helpers
+// ---------------------------------------------------------------------------
+
+const peek = (state: ParserState, ahead = 0): PhpToken => {
+  return state.tokens[Math.min(state.position + ahead, state.tokens.length - 1)];
+};
+
+const next = (state: ParserState): PhpToken => {
+  const token = peek(state);
+  if (token.type !== 'eof') {
+    state.position++;
+  }
+  return token;
+};
+
+const isSymbol = (token: PhpToken, ...symbols: string[]): boolean => {
+  return token.type === 'symbol' && symbols.includes(token.value);
+};
+
+const isKeyword = (token: PhpToken, ...keywords: string[]): boolean => {
+  return token.type === 'identifier' && keywords.includes(token.value.toLowerCase());
+};
+
+const acceptSymbol = (state: ParserState, symbol: string): boolean => {
+  if (isSymbol(peek(state), symbol)) {
+    next(state);
+    return true;
+  }
+  return false;
+};
+
+const acceptKeyword = (state: ParserState, keyword: string): boolean => {
+  if (isKeyword(peek(state), keyword)) {
+    next(state);
+    return true;
+  }
+  return false;
+};
+
+const expectSymbol = (state: ParserState, symbol: string): PhpToken => {
+  const token = peek(state);
+  if (!isSymbol(token, symbol)) {
+    throw unexpectedToken(token, `'${symbol}'`);
+  }
+  return next(state);
+};
+
+const expectIdentifier = (state: ParserState): string => {
+  const token = peek(state);
+  if (token.type !== 'identifier') {
+    throw unexpectedToken(token, 'an identifier');
+  }
+  return next(state).value;
+};
+
+const unexpectedToken = (token: PhpToken, expected: string): Error => {
+  return new Error(`Unexpected '${token.value || token.type}' on line ${token.line}, expected ${expected}`);
+};
+
+/**
+ * End a statement: `;`, or nothing at the end of the file
+ */
+const expectStatementEnd = (state: ParserState) => {
+  if (peek(state).type !== 'eof') {
+    expectSymbol(state, ';');
+  }
+};
+
+const createNode = (
+  kind: string,
+  children: PhpAstNode['children'],
+  lineno: number,
+  flags: string[] = [],
+  endLineno?: number
+): PhpAstNode => {
+  const node: PhpAstNode = { kind, flags, lineno, children };
+  if (endLineno !== undefined) {
+    node.endLineno = endLineno;
+  }
+  return node;
+};
+
+const createName = (name: string, lineno: number): PhpAstNode => {
+  if (name.startsWith('\\')) {
+    return createNode('AST_NAME', { name: name.slice(1) }, lineno, ['NAME_FQ']);
+  }
+  if (name.toLowerCase().startsWith('namespace\\')) {
+    return createNode('AST_NAME', { name: name.slice(10) }, lineno, ['NAME_RELATIVE']);
+  }
+  return createNode('AST_NAME', { name }, lineno, ['NAME_NOT_FQ']);
+};
+
+/**
+ * Skip a bracketed region starting at the current (opening) token
+ */
+const skipBalanced = (state: ParserState) => {
+  let depth = 0;
+  do {
+    const token = next(state);
+    if (isSymbol(token, '(', '[', '{', '#[')) {
+      depth++;
+    } else if (isSymbol(token, ')', ']', '}')) {
+      depth--;
+    } else if (token.type === 'eof') {
+      return;
+    }
+  } while (depth > 0);
+};
+
+/**
+ * Skip #[...] attribute groups
+ */
+const skipAttributes = (state: ParserState) => {
+  while (isSymbol(peek(state), '#[')) {
+    skipBalanced(state);
+  }
+};
+
+/**
+ * Skip to the end of the current statement after a parse error
+ */
+const synchronize = (state: ParserState, start: number) => {
+  let depth = 0;
+
+  while (peek(state).type !== 'eof') {
+    const token = peek(state);
+    if (isSymbol(token, '(', '[', '{', '#[')) {
+      depth++;
+    } else if (isSymbol(token, ')', ']', '}')) {
+      if (depth === 0) {
+        break;
+      }
+      depth--;
+      if (depth === 0 && token.value === '}') {
+        next(state);
+        break;
+      }
+    } else if (isSymbol(token, ';') && depth === 0) {
+      next(state);
+      break;
+    }
+    next(state);
+  }
+
+  // Always make progress
+  if (state.position === start) {
+    next(state);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Statements
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse statements until isEnd() or the end of the file
+ */
+const parseStatementList = (state: ParserState, isEnd: () => boolean, lineno: number): PhpAstNode => {
+  const statements: PhpAstValue[] = [];
+
+  while (peek(state).type !== 'eof' && !isEnd()) {
+    const start = state.position;
+    try {
+      const statement = parseStatement(state);
+      if (statement !== null) {
+        statements.push(statement);
+      }
+    } catch {
+      state.position = start;
+      synchronize(state, start);
+    }
+  }
+
+  return createNode('AST_STMT_LIST', statements, lineno);
+};
+
+/**
+ * Parse a `{ ... }` block
+ */
+const parseBlock = (state: ParserState): PhpAstNode => {
+  const open = expectSymbol(state, '{');
+  const statements = parseStatementList(state, () => isSymbol(peek(state), '}'), open.line);
+  expectSymbol(state, '}');
+  return statements;
+};
+
+/**
+ * Parse a control structure body: a statement, a block, or the alternative `: ... endif;` syntax
+ */
+const parseBody = (state: ParserState, ...endKeywords: string[]): PhpAstNode => {
+  const token = peek(state);
+  if (acceptSymbol(state, ':')) {
+    return parseStatementList(state, () => isKeyword(peek(state), ...endKeywords), token.line);
+  }
+  if (isSymbol(token, '{')) {
+    return parseBlock(state);
+  }
+
+  const statement = parseStatement(state);
+  return createNode('AST_STMT_LIST', statement === null ? [] : [statement], token.line);
+};
+
+/**
+ * Parse `endif;`, `endforeach;`... closing the alternative syntax
+ */
+const parseAlternativeEnd = (state: ParserState, keyword: string) => {
+  if (acceptKeyword(state, keyword)) {
+    expectStatementEnd(state);
+  }
+};
+
+const parseStatement = (state: ParserState): PhpAstValue => {
+  const token = peek(state);
+  const line = token.line;
+
+  if (isSymbol(token, ';')) {
+    next(state);
+    return null;
+  }
+  if (isSymbol(token, '{')) {
+    return parseBlock(state);
+  }
+  if (isSymbol(token, '#[')) {
+    skipAttributes(state);
+    return parseStatement(state);
+  }
+  if (token.type === 'inline_html') {
+    next(state);
+    return createNode('AST_ECHO', { expr: token.value }, line);
+  }
+  if (token.type !== 'identifier') {
+    return parseExpressionStatement(state);
+  }
+
+  const keyword = token.value.toLowerCase();
+  const following = peek(state, 1);
+
+  switch (keyword) {
+    case 'namespace':
+      if (!isSymbol(following, '(')) {
+        return parseNamespace(state);
+      }
+      break;
+    case 'use':
+      return parseUse(state);
+    case 'abstract':
+    case 'final':
+    case 'readonly':
+    case 'class':
+    case 'interface':
+    case 'trait':
+      if (keyword !== 'class' || following.type === 'identifier') {
+        return parseClassDeclaration(state);
+      }
+      break;
+    case 'enum':
+      if (following.type === 'identifier') {
+        return parseClassDeclaration(state);
+      }
+      break;
+    case 'function':
+      if (following.type === 'identifier' || (isSymbol(following, '&') && peek(state, 2).type === 'identifier')) {
+        return parseFunctionDeclaration(state);
+      }
+      break;
+    case 'const':
+      return parseConstDeclaration(state);
+    case 'return': {
+      next(state);
+      const expr = isSymbol(peek(state), ';') || peek(state).type === 'eof' ? null : parseExpression(state);
+      expectStatementEnd(state);
+      return createNode('AST_RETURN', { expr }, line);
+    }
+    case 'if':
+      return parseIf(state);
+    case 'foreach':
+      return parseForeach(state);
+    case 'for':
+      return parseFor(state);
+    case 'while':
+      return parseWhile(state);
+    case 'do':
+      return parseDoWhile(state);
+    case 'switch':
+      return parseSwitch(state);
+    case 'try':
+      return parseTry(state);
+    case 'echo':
+      return parseEcho(state);
+    case 'break':
+    case 'continue': {
+      next(state);
+      const depth = peek(state).type === 'number' ? Number(next(state).value) : null;
+      expectStatementEnd(state);
+      return createNode(keyword === 'break' ? 'AST_BREAK' : 'AST_CONTINUE', { depth }, line);
+    }
+    case 'global': {
+      next(state);
+      const globals: PhpAstValue[] = [];
+      do {
+        globals.push(createNode('AST_GLOBAL', { var: parsePrimary(state) }, line));
+      } while (acceptSymbol(state, ','));
+      expectStatementEnd(state);
+      return createNode('AST_STMT_LIST', globals, line);
+    }
+    case 'static':
+      if (following.type === 'variable') {
+        return parseStaticVariables(state);
+      }
+      break;
+    case 'unset': {
+      next(state);
+      const args = parseArgumentList(state);
+      expectStatementEnd(state);
+      return createNode('AST_STMT_LIST', (args.children as PhpAstValue[]).map(arg => createNode('AST_UNSET', { var: arg }, line)), line);
+    }
+    case 'declare': {
+      next(state);
+      skipBalanced(state);
+      if (!acceptSymbol(state, ';') && isSymbol(peek(state), '{')) {
+        return parseBlock(state);
+      }
+      return null;
+    }
+    case 'goto':
+      next(state);
+      next(state);
+      expectStatementEnd(state);
+      return null;
+  }
+
+  // Labels: `label:`
+  if (isSymbol(following, ':') && !['default', 'case', 'else'].includes(keyword)) {
+    next(state);
+    next(state);
+    return null;
+  }
+
+  return parseExpressionStatement(state);
+};
+
+const parseExpressionStatement = (state: ParserState): PhpAstValue => {
+  const expr = parseExpression(state);
+  expectStatementEnd(state);
+  return expr;
+};
+
+const parseNamespace = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const name = peek(state).type === 'identifier' ? next(state).value : null;
+
+  if (isSymbol(peek(state), '{')) {
+    return createNode('AST_NAMESPACE', { name, stmts: parseBlock(state) }, line);
+  }
+
+  expectStatementEnd(state);
+  return createNode('AST_NAMESPACE', { name, stmts: null }, line);
+};
+
+const parseUse = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const flag = acceptKeyword(state, 'function') ? 'USE_FUNCTION' : acceptKeyword(state, 'const') ? 'USE_CONST' : 'USE_NORMAL';
+  const uses: PhpAstValue[] = [];
+  let prefix: string | null = null;
+
+  do {
+    const name = expectIdentifier(state).replace(/^\\/, '');
+
+    // Group use: use App\Models\{User, Post as Article};
+    if (isSymbol(peek(state), '\\') && isSymbol(peek(state, 1), '{')) {
+      next(state);
+      next(state);
+      prefix = name;
+      do {
+        if (isSymbol(peek(state), '}')) {
+          break;
+        }
+        const memberLine = peek(state).line;
+        const memberName = expectIdentifier(state);
+        const alias = acceptKeyword(state, 'as') ? expectIdentifier(state) : null;
+        uses.push(createNode('AST_USE_ELEM', { name: memberName, alias }, memberLine));
+      } while (acceptSymbol(state, ','));
+      expectSymbol(state, '}');
+      break;
+    }
+
+    const alias = acceptKeyword(state, 'as') ? expectIdentifier(state) : null;
+    uses.push(createNode('AST_USE_ELEM', { name, alias }, line));
+  } while (acceptSymbol(state, ','));
+
+  expectStatementEnd(state);
+
+  const useNode = createNode('AST_USE', uses, line, [flag]);
+  return prefix === null ? useNode : createNode('AST_GROUP_USE', { prefix, uses: useNode }, line);
+};
+
+const parseConstDeclaration = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const elements: PhpAstValue[] = [];
+
+  do {
+    const elementLine = peek(state).line;
+    const name = expectIdentifier(state);
+    expectSymbol(state, '=');
+    elements.push(createNode('AST_CONST_ELEM', { name, value: parseExpression(state), docComment: null }, elementLine));
+  } while (acceptSymbol(state, ','));
+
+  expectStatementEnd(state);
+  return createNode('AST_CONST_DECL', elements, line);
+};
+
+const parseStaticVariables = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const variables: PhpAstValue[] = [];
+
+  do {
+    const variable = next(state);
+    const defaultValue = acceptSymbol(state, '=') ? parseExpression(state) : null;
+    variables.push(createNode('AST_STATIC', { var: createNode('AST_VAR', { name: variable.value }, variable.line), default: defaultValue }, variable.line));
+  } while (acceptSymbol(state, ','));
+
+  expectStatementEnd(state);
+  return createNode('AST_STMT_LIST', variables, line);
+};
+
+const parseParenthesizedExpression = (state: ParserState): PhpAstValue => {
+  expectSymbol(state, '(');
+  const expr = parseExpression(state);
+  expectSymbol(state, ')');
+  return expr;
+};
+
+const parseIf = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const elements: PhpAstValue[] = [];
+  const isAlternative = () => isSymbol(peek(state), ':');
+
+  let cond = parseParenthesizedExpression(state);
+  const alternative = isAlternative();
+  elements.push(createNode('AST_IF_ELEM', { cond, stmts: parseBody(state, 'elseif', 'else', 'endif') }, line));
+
+  while (true) {
+    const token = peek(state);
+    if (isKeyword(token, 'elseif') || (isKeyword(token, 'else') && isKeyword(peek(state, 1), 'if'))) {
+      next(state);
+      if (token.value.toLowerCase() === 'else') {
+        next(state);
+      }
+      cond = parseParenthesizedExpression(state);
+      elements.push(createNode('AST_IF_ELEM', { cond, stmts: parseBody(state, 'elseif', 'else', 'endif') }, token.line));
+    } else if (isKeyword(token, 'else')) {
+      next(state);
+      elements.push(createNode('AST_IF_ELEM', { cond: null, stmts: parseBody(state, 'endif') }, token.line));
+      break;
+    } else {
+      break;
+    }
+  }
+
+  if (alternative) {
+    parseAlternativeEnd(state, 'endif');
+  }
+  return createNode('AST_IF', elements, line);
+};
+
+const parseForeach = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  expectSymbol(state, '(');
+  const expr = parseExpression(state);
+  if (!acceptKeyword(state, 'as')) {
+    throw unexpectedToken(peek(state), "'as'");
+  }
+
+  let key: PhpAstValue = null;
+  let value = parseForeachTarget(state);
+  if (acceptSymbol(state, '=>')) {
+    key = value;
+    value = parseForeachTarget(state);
+  }
+  expectSymbol(state, ')');
+
+  const alternative = isSymbol(peek(state), ':');
+  const stmts = parseBody(state, 'endforeach');
+  if (alternative) {
+    parseAlternativeEnd(state, 'endforeach');
+  }
+
+  return createNode('AST_FOREACH', { expr, value, key, stmts }, line);
+};
+
+const parseForeachTarget = (state: ParserState): PhpAstValue => {
+  const line = peek(state).line;
+  if (acceptSymbol(state, '&')) {
+    return createNode('AST_REF', { var: parseExpression(state, ASSIGNMENT_PRECEDENCE + 1) }, line);
+  }
+  return parseExpression(state, ASSIGNMENT_PRECEDENCE + 1);
+};
+
+const parseExpressionList = (state: ParserState, terminator: string): PhpAstNode | null => {
+  const line = peek(state).line;
+  const expressions: PhpAstValue[] = [];
+
+  while (!isSymbol(peek(state), terminator) && peek(state).type !== 'eof') {
+    expressions.push(parseExpression(state));
+    if (!acceptSymbol(state, ',')) {
+      break;
+    }
+  }
+
+  return expressions.length > 0 ? createNode('AST_EXPR_LIST', expressions, line) : null;
+};
+
+const parseFor = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  expectSymbol(state, '(');
+  const init = parseExpressionList(state, ';');
+  expectSymbol(state, ';');
+  const cond = parseExpressionList(state, ';');
+  expectSymbol(state, ';');
+  const loop = parseExpressionList(state, ')');
+  expectSymbol(state, ')');
+
+  const alternative = isSymbol(peek(state), ':');
+  const stmts = parseBody(state, 'endfor');
+  if (alternative) {
+    parseAlternativeEnd(state, 'endfor');
+  }
+
+  return createNode('AST_FOR', { init, cond, loop, stmts }, line);
+};
+
+const parseWhile = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const cond = parseParenthesizedExpression(state);
+
+  const alternative = isSymbol(peek(state), ':');
+  const stmts = parseBody(state, 'endwhile');
+  if (alternative) {
+    parseAlternativeEnd(state, 'endwhile');
+  }
+
+  return createNode('AST_WHILE', { cond, stmts }, line);
+};
+
+const parseDoWhile = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const stmts = parseBody(state);
+  if (!acceptKeyword(state, 'while')) {
+    throw unexpectedToken(peek(state), "'while'");
+  }
+  const cond = parseParenthesizedExpression(state);
+  expectStatementEnd(state);
+  return createNode('AST_DO_WHILE', { stmts, cond }, line);
+};
+
+const parseSwitch = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const cond = parseParenthesizedExpression(state);
+  const alternative = !isSymbol(peek(state), '{');
+  const open = next(state);
+  const closer = alternative ? 'endswitch' : '}';
+  const isCaseEnd = () => isKeyword(peek(state), 'case', 'default', 'endswitch') || isSymbol(peek(state), '}');
+  const cases: PhpAstValue[] = [];
+
+  while (peek(state).type !== 'eof' && !isKeyword(peek(state), closer) && !isSymbol(peek(state), closer)) {
+    const caseToken = next(state);
+    let caseCond: PhpAstValue = null;
+    if (isKeyword(caseToken, 'case')) {
+      caseCond = parseExpression(state);
+    } else if (!isKeyword(caseToken, 'default')) {
+      throw unexpectedToken(caseToken, "'case' or 'default'");
+    }
+    if (!acceptSymbol(state, ':')) {
+      expectSymbol(state, ';');
+    }
+    cases.push(createNode('AST_SWITCH_CASE', { cond: caseCond, stmts: parseStatementList(state, isCaseEnd, caseToken.line) }, caseToken.line));
+  }
+
+  if (alternative) {
+    parseAlternativeEnd(state, 'endswitch');
+  } else {
+    expectSymbol(state, '}');
+  }
+
+  return createNode('AST_SWITCH', { cond, stmts: createNode('AST_SWITCH_LIST', cases, open.line) }, line);
+};
+
+const parseTry = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const tryBlock = parseBlock(state);
+  const catches: PhpAstValue[] = [];
+  let finallyBlock: PhpAstValue = null;
+
+  while (isKeyword(peek(state), 'catch')) {
+    const catchLine = next(state).line;
+    expectSymbol(state, '(');
+    const classes: PhpAstValue[] = [];
+    do {
+      const classToken = next(state);
+      classes.push(createName(classToken.value, classToken.line));
+    } while (acceptSymbol(state, '|'));
+    const variable = peek(state).type === 'variable' ? next(state) : null;
+    expectSymbol(state, ')');
+
+    catches.push(createNode('AST_CATCH', {
+      class: createNode('AST_NAME_LIST', classes, catchLine),
+      var: variable ? createNode('AST_VAR', { name: variable.value }, variable.line) : null,
+      stmts: parseBlock(state)
+    }, catchLine));
+  }
+
+  if (acceptKeyword(state, 'finally')) {
+    finallyBlock = parseBlock(state);
+  }
+
+  return createNode('AST_TRY', { try: tryBlock, catches: createNode('AST_CATCH_LIST', catches, line), finally: finallyBlock }, line);
+};
+
+const parseEcho = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const echoes: PhpAstValue[] = [];
+  do {
+    echoes.push(createNode('AST_ECHO', { expr: parseExpression(state) }, line));
+  } while (acceptSymbol(state, ','));
+  expectStatementEnd(state);
+
+  return echoes.length === 1 ? echoes[0] as PhpAstNode : createNode('AST_STMT_LIST', echoes, line);
+};
+
+// ---------------------------------------------------------------------------
+// Declarations
+// ---------------------------------------------------------------------------
+
+const parseClassDeclaration = (state: ParserState): PhpAstNode => {
+  const docComment = state.docComments.get(state.position) ?? null;
+  const line = peek(state).line;
+  const flags: string[] = [];
+
+  while (isKeyword(peek(state), 'abstract', 'final', 'readonly')) {
+    flags.push(`CLASS_${next(state).value.toUpperCase()}`);
+  }
+
+  const keyword = next(state).value.toLowerCase();
+  if (keyword !== 'class') {
+    flags.push(`CLASS_${keyword.toUpperCase()}`);
+  }
+
+  const name = expectIdentifier(state);
+
+  // Backed enums: enum Status: string
+  if (keyword === 'enum' && acceptSymbol(state, ':')) {
+    parseType(state);
+  }
+
+  return parseClassRest(state, keyword, name, docComment, line, flags);
+};
+
+/**
+ * Parse extends/implements and the class body
+ */
+const parseClassRest = (
+  state: ParserState,
+  keyword: string,
+  name: string | null,
+  docComment: string | null,
+  line: number,
+  flags: string[]
+): PhpAstNode => {
+  let extendsNode: PhpAstValue = null;
+  let implementsNode: PhpAstValue = null;
+
+  if (acceptKeyword(state, 'extends')) {
+    const names = parseNameList(state);
+    // Interfaces can extend several interfaces
+    extendsNode = keyword === 'interface' ? names : (names.children as PhpAstValue[])[0];
+  }
+  if (acceptKeyword(state, 'implements')) {
+    implementsNode = parseNameList(state);
+  }
+
+  const open = expectSymbol(state, '{');
+  const members: PhpAstValue[] = [];
+
+  while (peek(state).type !== 'eof' && !isSymbol(peek(state), '}')) {
+    const start = state.position;
+    try {
+      const member = parseClassMember(state);
+      if (member !== null) {
+        members.push(member);
+      }
+    } catch {
+      state.position = start;
+      synchronize(state, start);
+    }
+  }
+
+  const close = expectSymbol(state, '}');
+
+  return createNode('AST_CLASS', {
+    name,
+    docComment,
+    extends: extendsNode,
+    implements: implementsNode,
+    stmts: createNode('AST_STMT_LIST', members, open.line)
+  }, line, flags, close.line);
+};
+
+const parseNameList = (state: ParserState): PhpAstNode => {
+  const line = peek(state).line;
+  const names: PhpAstValue[] = [];
+  do {
+    const token = next(state);
+    names.push(createName(token.value, token.line));
+  } while (acceptSymbol(state, ','));
+  return createNode('AST_NAME_LIST', names, line);
+};
+
+const parseClassMember = (state: ParserState): PhpAstValue => {
+  skipAttributes(state);
+
+  const docComment = state.docComments.get(state.position) ?? null;
+  const token = peek(state);
+  const line = token.line;
+
+  if (acceptSymbol(state, ';')) {
+    return null;
+  }
+
+  // Traits: use HasFactory, SoftDeletes { ... }
+  if (acceptKeyword(state, 'use')) {
+    const traits = parseNameList(state);
+    if (isSymbol(peek(state), '{')) {
+      skipBalanced(state);
+    } else {
+      expectStatementEnd(state);
+    }
+    return createNode('AST_USE_TRAIT', { traits, adaptations: null }, line);
+  }
+
+  // Enum cases: case Active = 'active';
+  if (acceptKeyword(state, 'case')) {
+    const name = expectIdentifier(state);
+    const expr = acceptSymbol(state, '=') ? parseExpression(state) : null;
+    expectStatementEnd(state);
+    return createNode('AST_ENUM_CASE', { name, expr, docComment }, line);
+  }
+
+  const flags: string[] = [];
+  while (peek(state).type === 'identifier' && MODIFIER_FLAGS[peek(state).value.toLowerCase()] && !isSymbol(peek(state, 1), '(')) {
+    const flag = MODIFIER_FLAGS[next(state).value.toLowerCase()];
+    if (!flags.includes(flag)) {
+      flags.push(flag);
+    }
+  }
+
+  if (acceptKeyword(state, 'const')) {
+    const elements: PhpAstValue[] = [];
+    do {
+      const elementLine = peek(state).line;
+      // Typed constants (PHP 8.3): const string NAME = ...
+      let name = expectIdentifier(state);
+      if (peek(state).type === 'identifier') {
+        name = expectIdentifier(state);
+      }
+      expectSymbol(state, '=');
+      elements.push(createNode('AST_CONST_ELEM', { name, value: parseExpression(state), docComment }, elementLine));
+    } while (acceptSymbol(state, ','));
+    expectStatementEnd(state);
+    return createNode('AST_CLASS_CONST_DECL', elements, line, flags);
+  }
+
+  if (acceptKeyword(state, 'function')) {
+    if (!flags.some(flag => ['MODIFIER_PUBLIC', 'MODIFIER_PROTECTED', 'MODIFIER_PRIVATE'].includes(flag))) {
+      flags.unshift('MODIFIER_PUBLIC');
+    }
+    acceptSymbol(state, '&');
+    const name = expectIdentifier(state);
+    const params = parseParameterList(state);
+    const returnType = acceptSymbol(state, ':') ? parseType(state) : null;
+
+    let stmts: PhpAstValue = null;
+    let endLine = peek(state).line;
+    if (isSymbol(peek(state), '{')) {
+      stmts = parseBlock(state);
+      endLine = state.tokens[state.position - 1].line;
+    } else {
+      expectStatementEnd(state);
+    }
+
+    return createNode('AST_METHOD', { name, docComment, params, stmts, returnType, uses: null }, line, flags, endLine);
+  }
+
+  // Properties: public ?User $user = null, $other;
+  const type = peek(state).type === 'variable' ? null : parseType(state);
+  const elements: PhpAstValue[] = [];
+  do {
+    const variable = next(state);
+    if (variable.type !== 'variable') {
+      throw unexpectedToken(variable, 'a property name');
+    }
+    const defaultValue = acceptSymbol(state, '=') ? parseExpression(state) : null;
+    elements.push(createNode('AST_PROP_ELEM', { name: variable.value, default: defaultValue, docComment }, variable.line));
+  } while (acceptSymbol(state, ','));
+
+  // Property hooks (PHP 8.4)
+  if (isSymbol(peek(state), '{')) {
+    skipBalanced(state);
+  } else {
+    expectStatementEnd(state);
+  }
+
+  return createNode('AST_PROP_GROUP', { type, props: createNode('AST_PROP_DECL', elements, line, flags) }, line, flags);
+};
+
+const parseFunctionDeclaration = (state: ParserState): PhpAstNode => {
+  const docComment = state.docComments.get(state.position) ?? null;
+  const line = next(state).line;
+  acceptSymbol(state, '&');
+  const name = expectIdentifier(state);
+  const params = parseParameterList(state);
+  const returnType = acceptSymbol(state, ':') ? parseType(state) : null;
+  const stmts = parseBlock(state);
+
+  return createNode('AST_FUNC_DECL', { name, docComment, params, stmts, returnType, uses: null }, line, [], state.tokens[state.position - 1].line);
+};
+
+const parseParameterList = (state: ParserState): PhpAstNode => {
+  const open = expectSymbol(state, '(');
+  const params: PhpAstValue[] = [];
+
+  while (!isSymbol(peek(state), ')')) {
+    skipAttributes(state);
+    const line = peek(state).line;
+    const flags: string[] = [];
+
+    // Constructor property promotion: public readonly User $user
+    while (peek(state).type === 'identifier' && ['public', 'protected', 'private', 'readonly'].includes(peek(state).value.toLowerCase())) {
+      flags.push(MODIFIER_FLAGS[next(state).value.toLowerCase()]);
+    }
+
+    const type = peek(state).type === 'variable' || isSymbol(peek(state), '&', '...') ? null : parseType(state);
+    if (acceptSymbol(state, '&')) {
+      flags.push('PARAM_REF');
+    }
+    if (acceptSymbol(state, '...')) {
+      flags.push('PARAM_VARIADIC');
+    }
+
+    const variable = next(state);
+    if (variable.type !== 'variable') {
+      throw unexpectedToken(variable, 'a parameter name');
+    }
+    const defaultValue = acceptSymbol(state, '=') ? parseExpression(state) : null;
+    params.push(createNode('AST_PARAM', { type, name: variable.value, default: defaultValue }, line, flags));
+
+    if (!acceptSymbol(state, ',')) {
+      break;
+    }
+  }
+
+  expectSymbol(state, ')');
+  return createNode('AST_PARAM_LIST', params, open.line);
+};
+
+/**
+ * Parse a type declaration: ?User, int|string, A&B, (A&B)|null, static
+ */
+const parseType = (state: ParserState): PhpAstNode => {
+  const line = peek(state).line;
+
+  if (acceptSymbol(state, '?')) {
+    return createNode('AST_NULLABLE_TYPE', { type: parseType(state) }, line);
+  }
+
+  const types: PhpAstNode[] = [parseIntersectionType(state)];
+  while (acceptSymbol(state, '|')) {
+    types.push(parseIntersectionType(state));
+  }
+
+  return types.length === 1 ? types[0] : createNode('AST_TYPE_UNION', types, line);
+};
+
+const parseIntersectionType = (state: ParserState): PhpAstNode => {
+  const line = peek(state).line;
+
+  if (acceptSymbol(state, '(')) {
+    const type = parseIntersectionType(state);
+    expectSymbol(state, ')');
+    return type;
+  }
+
+  const types: PhpAstNode[] = [parseSingleType(state)];
+  // `&` followed by a variable is a by-reference parameter, not an intersection
+  while (isSymbol(peek(state), '&') && peek(state, 1).type === 'identifier') {
+    next(state);
+    types.push(parseSingleType(state));
+  }
+
+  return types.length === 1 ? types[0] : createNode('AST_TYPE_INTERSECTION', types, line);
+};
+
+const parseSingleType = (state: ParserState): PhpAstNode => {
+  const token = next(state);
+  if (token.type !== 'identifier') {
+    throw unexpectedToken(token, 'a type');
+  }
+
+  const typeFlag = TYPE_FLAGS[token.value.toLowerCase()];
+  return typeFlag ? createNode('AST_TYPE', [], token.line, [typeFlag]) : createName(token.value, token.line);
+};
+
+// ---------------------------------------------------------------------------
+// Expressions
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse an expression whose operators bind at least as tightly as minPrecedence
+ */
+const parseExpression = (state: ParserState, minPrecedence = 0): PhpAstValue => {
+  let left = parseUnary(state);
+
+  while (true) {
+    const token = peek(state);
+    const operator = token.type === 'symbol' || token.type === 'identifier' ? token.value.toLowerCase() : '';
+
+    // Assignments are right associative: $a = $b = 1
+    if (token.type === 'symbol' && operator in ASSIGNMENT_OPERATORS && ASSIGNMENT_PRECEDENCE >= minPrecedence) {
+      next(state);
+      const binaryFlag = ASSIGNMENT_OPERATORS[operator];
+      if (binaryFlag) {
+        left = createNode('AST_ASSIGN_OP', { var: left, expr: parseExpression(state, ASSIGNMENT_PRECEDENCE) }, token.line, [binaryFlag]);
+      } else if (acceptSymbol(state, '&')) {
+        left = createNode('AST_ASSIGN_REF', { var: left, expr: parseExpression(state, ASSIGNMENT_PRECEDENCE) }, token.line);
+      } else {
+        left = createNode('AST_ASSIGN', { var: left, expr: parseExpression(state, ASSIGNMENT_PRECEDENCE) }, token.line);
+      }
+      continue;
+    }
+
+    if (isSymbol(token, '?') && TERNARY_PRECEDENCE >= minPrecedence) {
+      next(state);
+      const trueExpr = isSymbol(peek(state), ':') ? null : parseExpression(state, ASSIGNMENT_PRECEDENCE);
+      expectSymbol(state, ':');
+      const falseExpr = parseExpression(state, TERNARY_PRECEDENCE + 1);
+      left = createNode('AST_CONDITIONAL', { cond: left, true: trueExpr, false: falseExpr }, token.line);
+      continue;
+    }
+
+    if (isKeyword(token, 'instanceof') && INSTANCEOF_PRECEDENCE >= minPrecedence) {
+      next(state);
+      const classToken = peek(state);
+      const classNode = classToken.type === 'identifier'
+        ? createName(next(state).value, classToken.line)
+        : parseUnary(state);
+      left = createNode('AST_INSTANCEOF', { expr: left, class: classNode }, token.line);
+      continue;
+    }
+
+    const binary = (token.type === 'symbol' || isKeyword(token, 'and', 'or', 'xor')) ? BINARY_OPERATORS[operator] : undefined;
+    if (!binary || binary.precedence < minPrecedence) {
+      break;
+    }
+
+    next(state);
+    const right = parseExpression(state, binary.rightAssociative ? binary.precedence : binary.precedence + 1);
+    left = createNode('AST_BINARY_OP', { left, right }, token.line, [binary.flag]);
+  }
+
+  return left;
+};
+
+const parseUnary = (state: ParserState): PhpAstValue => {
+  const token = peek(state);
+  const line = token.line;
+
+  if (token.type === 'symbol') {
+    switch (token.value) {
+      case '!':
+        next(state);
+        return createNode('AST_UNARY_OP', { expr: parseExpression(state, INSTANCEOF_PRECEDENCE) }, line, ['UNARY_BOOL_NOT']);
+      case '-':
+      case '+':
+      case '~':
+      case '@': {
+        next(state);
+        const flag = { '-': 'UNARY_MINUS', '+': 'UNARY_PLUS', '~': 'UNARY_BITWISE_NOT', '@': 'UNARY_SILENCE' }[token.value];
+        return createNode('AST_UNARY_OP', { expr: parseExpression(state, UNARY_PRECEDENCE) }, line, [flag as string]);
+      }
+      case '++':
+      case '--':
+        next(state);
+        return createNode(token.value === '++' ? 'AST_PRE_INC' : 'AST_PRE_DEC', { var: parseExpression(state, UNARY_PRECEDENCE) }, line);
+      case '&':
+        // By-reference values in arrays and arguments
+        next(state);
+        return parseUnary(state);
+      case '#[':
+        skipAttributes(state);
+        return parseUnary(state);
+    }
+  }
+
+  if (token.type === 'cast') {
+    next(state);
+    return createNode('AST_CAST', { expr: parseExpression(state, UNARY_PRECEDENCE) }, line, [CAST_FLAGS[token.value]]);
+  }
+
+  if (token.type === 'identifier') {
+    const keyword = token.value.toLowerCase();
+    const following = peek(state, 1);
+    if (!isSymbol(following, '::', '(') || ['new', 'clone', 'print', 'yield', 'throw', 'include', 'include_once', 'require', 'require_once', 'function', 'fn'].includes(keyword)) {
+      switch (keyword) {
+        case 'new':
+          return parsePostfix(state, parseNew(state));
+        case 'clone':
+          next(state);
+          return createNode('AST_CLONE', { expr: parseExpression(state, UNARY_PRECEDENCE) }, line);
+        case 'print':
+          next(state);
+          return createNode('AST_PRINT', { expr: parseExpression(state, ASSIGNMENT_PRECEDENCE) }, line);
+        case 'throw':
+          next(state);
+          return createNode('AST_THROW', { expr: parseExpression(state) }, line);
+        case 'yield':
+          return parseYield(state);
+        case 'include':
+        case 'include_once':
+        case 'require':
+        case 'require_once':
+          next(state);
+          return createNode('AST_INCLUDE_OR_EVAL', { expr: parseExpression(state, ASSIGNMENT_PRECEDENCE) }, line, [INCLUDE_FLAGS[keyword]]);
+        case 'function':
+        case 'fn':
+          return parsePostfix(state, parseClosure(state, []));
+        case 'static':
+          if (isKeyword(following, 'function', 'fn')) {
+            next(state);
+            return parsePostfix(state, parseClosure(state, ['MODIFIER_STATIC']));
+          }
+          break;
+      }
+    }
+  }
+
+  return parsePostfix(state, parsePrimary(state));
+};
+
+const parseYield = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+
+  if (acceptKeyword(state, 'from')) {
+    return createNode('AST_YIELD_FROM', { expr: parseExpression(state, ASSIGNMENT_PRECEDENCE) }, line);
+  }
+  if (isSymbol(peek(state), ';', ')', ',', ']')) {
+    return createNode('AST_YIELD', { value: null, key: null }, line);
+  }
+
+  const value = parseExpression(state, TERNARY_PRECEDENCE);
+  if (acceptSymbol(state, '=>')) {
+    return createNode('AST_YIELD', { value: parseExpression(state, TERNARY_PRECEDENCE), key: value }, line);
+  }
+  return createNode('AST_YIELD', { value, key: null }, line);
+};
+
+/**
+ * Parse `function (...) use (...) { ... }` or `fn (...) => expr`
+ */
+const parseClosure = (state: ParserState, flags: string[]): PhpAstNode => {
+  const docComment = state.docComments.get(state.position) ?? null;
+  const keywordToken = next(state);
+  const line = keywordToken.line;
+  acceptSymbol(state, '&');
+  const params = parseParameterList(state);
+
+  if (keywordToken.value.toLowerCase() === 'fn') {
+    const returnType = acceptSymbol(state, ':') ? parseType(state) : null;
+    const arrow = expectSymbol(state, '=>');
+    const expr = parseExpression(state, ASSIGNMENT_PRECEDENCE);
+    const stmts = createNode('AST_RETURN', { expr }, arrow.line);
+    return createNode('AST_ARROW_FUNC', { name: '{closure}', docComment, params, stmts, returnType, uses: null }, line, flags, state.tokens[state.position - 1].line);
+  }
+
+  let uses: PhpAstValue = null;
+  if (acceptKeyword(state, 'use')) {
+    const useLine = expectSymbol(state, '(').line;
+    const variables: PhpAstValue[] = [];
+    while (!isSymbol(peek(state), ')')) {
+      const isReference = acceptSymbol(state, '&');
+      const variable = next(state);
+      variables.push(createNode('AST_CLOSURE_VAR', { name: variable.value }, variable.line, isReference ? ['CLOSURE_USE_REF'] : []));
+      if (!acceptSymbol(state, ',')) {
+        break;
+      }
+    }
+    expectSymbol(state, ')');
+    uses = createNode('AST_CLOSURE_USES', variables, useLine);
+  }
+
+  const returnType = acceptSymbol(state, ':') ? parseType(state) : null;
+  const stmts = parseBlock(state);
+
+  return createNode('AST_CLOSURE', { name: '{closure}', docComment, params, uses, stmts, returnType }, line, flags, state.tokens[state.position - 1].line);
+};
+
+const parseNew = (state: ParserState): PhpAstNode => {
+  const line = next(state).line;
+  const token = peek(state);
+
+  // Anonymous classes: new class(...) extends Foo { ... }
+  if (isKeyword(token, 'class')) {
+    next(state);
+    const args = isSymbol(peek(state), '(') ? parseArgumentList(state) : createNode('AST_ARG_LIST', [], line);
+    const classNode = parseClassRest(state, 'class', null, null, token.line, ['CLASS_ANONYMOUS']);
+    return createNode('AST_NEW', { class: classNode, args }, line);
+  }
+
+  let classNode: PhpAstValue;
+  if (token.type === 'identifier') {
+    classNode = createName(next(state).value, token.line);
+  } else if (isSymbol(token, '(')) {
+    classNode = parseParenthesizedExpression(state);
+  } else {
+    // new $class, new $this->class, new static::$class
+    classNode = parsePrimary(state);
+    while (isSymbol(peek(state), '->', '::', '[')) {
+      const accessor = next(state);
+      if (accessor.value === '[') {
+        classNode = createNode('AST_DIM', { expr: classNode, dim: parseExpression(state) }, accessor.line);
+        expectSymbol(state, ']');
+      } else if (accessor.value === '->') {
+        classNode = createNode('AST_PROP', { expr: classNode, prop: next(state).value }, accessor.line);
+      } else {
+        classNode = createNode('AST_STATIC_PROP', { class: classNode, prop: next(state).value }, accessor.line);
+      }
+    }
+  }
+
+  const args = isSymbol(peek(state), '(') ? parseArgumentList(state) : createNode('AST_ARG_LIST', [], line);
+  return createNode('AST_NEW', { class: classNode, args }, line);
+};
+
+const parsePrimary = (state: ParserState): PhpAstValue => {
+  const token = next(state);
+  const line = token.line;
+
+  switch (token.type) {
+    case 'variable':
+      return createNode('AST_VAR', { name: token.value }, line);
+    case 'number':
+      return parseNumber(token.value);
+    case 'string':
+      return token.value;
+    case 'interpolated_string':
+      return parseInterpolatedString(token.value, line);
+    case 'symbol':
+      if (token.value === '[') {
+        return parseArray(state, ']', line, 'ARRAY_SYNTAX_SHORT');
+      }
+      if (token.value === '(') {
+        const expr = parseExpression(state);
+        expectSymbol(state, ')');
+        return expr;
+      }
+      if (token.value === '$') {
+        // Variable variables: $$name, ${'name'}
+        if (acceptSymbol(state, '{')) {
+          const name = parseExpression(state);
+          expectSymbol(state, '}');
+          return createNode('AST_VAR', { name }, line);
+        }
+        return createNode('AST_VAR', { name: parsePrimary(state) }, line);
+      }
+      throw unexpectedToken(token, 'an expression');
+    case 'identifier':
+      return parseIdentifierExpression(state, token);
+    default:
+      throw unexpectedToken(token, 'an expression');
+  }
+};
+
+const parseIdentifierExpression = (state: ParserState, token: PhpToken): PhpAstValue => {
+  const line = token.line;
+  const keyword = token.value.toLowerCase();
+  const following = peek(state);
+
+  if (isSymbol(following, '(')) {
+    switch (keyword) {
+      case 'array':
+        next(state);
+        return parseArray(state, ')', line, 'ARRAY_SYNTAX_LONG');
+      case 'list':
+        next(state);
+        return parseArray(state, ')', line, 'ARRAY_SYNTAX_LIST');
+      case 'isset': {
+        const args = parseArgumentList(state).children as PhpAstValue[];
+        // isset($a, $b) is isset($a) && isset($b)
+        return args
+          .map(arg => createNode('AST_ISSET', { var: arg }, line))
+          .reduce((left, right) => createNode('AST_BINARY_OP', { left, right }, line, ['BINARY_BOOL_AND']));
+      }
+      case 'empty':
+        next(state);
+        return createNode('AST_EMPTY', { expr: parseArgumentExpression(state) }, line);
+      case 'exit':
+      case 'die': {
+        const args = parseArgumentList(state).children as PhpAstValue[];
+        return createNode('AST_EXIT', { expr: args[0] ?? null }, line);
+      }
+      case 'eval':
+        next(state);
+        return createNode('AST_INCLUDE_OR_EVAL', { expr: parseArgumentExpression(state) }, line, ['EXEC_EVAL']);
+      case 'match':
+        return parseMatch(state, line);
+    }
+
+    return createNode('AST_CALL', { expr: createName(token.value, line), args: parseArgumentList(state) }, line);
+  }
+
+  if (isSymbol(following, '::')) {
+    return createName(token.value, line);
+  }
+  if (keyword === 'exit' || keyword === 'die') {
+    return createNode('AST_EXIT', { expr: null }, line);
+  }
+  if (MAGIC_CONSTANTS[keyword]) {
+    return createNode('AST_MAGIC_CONST', [], line, [MAGIC_CONSTANTS[keyword]]);
+  }
+
+  return createNode('AST_CONST', { name: createName(token.value, line) }, line);
+};
+
+/**
+ * Parse `(expr)` following empty() or eval()
+ */
+const parseArgumentExpression = (state: ParserState): PhpAstValue => {
+  expectSymbol(state, '(');
+  const expr = parseExpression(state);
+  expectSymbol(state, ')');
+  return expr;
+};
+
+const parseMatch = (state: ParserState, line: number): PhpAstNode => {
+  const cond = parseParenthesizedExpression(state);
+  const open = expectSymbol(state, '{');
+  const arms: PhpAstValue[] = [];
+
+  while (!isSymbol(peek(state), '}') && peek(state).type !== 'eof') {
+    const armLine = peek(state).line;
+    let armCond: PhpAstValue = null;
+    if (isKeyword(peek(state), 'default') && isSymbol(peek(state, 1), '=>', ',')) {
+      next(state);
+      acceptSymbol(state, ',');
+    } else {
+      armCond = parseExpressionList(state, '=>');
+    }
+    expectSymbol(state, '=>');
+    arms.push(createNode('AST_MATCH_ARM', { cond: armCond, expr: parseExpression(state) }, armLine));
+    if (!acceptSymbol(state, ',')) {
+      break;
+    }
+  }
+
+  expectSymbol(state, '}');
+  return createNode('AST_MATCH', { cond, stmts: createNode('AST_MATCH_ARM_LIST', arms, open.line) }, line);
+};
+
+/**
+ * Parse array elements up to the closing bracket: [1, 'key' => $value, ...$rest, &$ref]
+ */
+const parseArray = (state: ParserState, closer: string, line: number, syntaxFlag: string): PhpAstNode => {
+  const elements: PhpAstValue[] = [];
+
+  while (!isSymbol(peek(state), closer) && peek(state).type !== 'eof') {
+    const elementLine = peek(state).line;
+
+    if (isSymbol(peek(state), ',')) {
+      // Skipped list() slot: [, $second] = ...
+      next(state);
+      elements.push(null);
+      continue;
+    }
+
+    if (acceptSymbol(state, '...')) {
+      elements.push(createNode('AST_UNPACK', { expr: parseExpression(state) }, elementLine));
+    } else {
+      const flags = acceptSymbol(state, '&') ? ['ARRAY_ELEM_REF'] : [];
+      let value = parseExpression(state);
+      let key: PhpAstValue = null;
+      if (acceptSymbol(state, '=>')) {
+        key = value;
+        if (acceptSymbol(state, '&')) {
+          flags.push('ARRAY_ELEM_REF');
+        }
+        value = parseExpression(state);
+      }
+      elements.push(createNode('AST_ARRAY_ELEM', { value, key }, elementLine, flags));
+    }
+
+    if (!acceptSymbol(state, ',')) {
+      break;
+    }
+  }
+
+  expectSymbol(state, closer);
+  return createNode('AST_ARRAY', elements, line, [syntaxFlag]);
+};
+
+const parseArgumentList = (state: ParserState): PhpAstNode => {
+  const open = expectSymbol(state, '(');
+  const args: PhpAstValue[] = [];
+
+  while (!isSymbol(peek(state), ')') && peek(state).type !== 'eof') {
+    const line = peek(state).line;
+
+    if (isSymbol(peek(state), '...') && isSymbol(peek(state, 1), ')')) {
+      // First-class callable syntax: strlen(...)
+      next(state);
+      args.push(createNode('AST_CALLABLE_CONVERT', [], line));
+      break;
+    }
+
+    if (acceptSymbol(state, '...')) {
+      args.push(createNode('AST_UNPACK', { expr: parseExpression(state) }, line));
+    } else if (peek(state).type === 'identifier' && isSymbol(peek(state, 1), ':') && !isSymbol(peek(state, 1), '::')) {
+      // Named arguments: view: 'emails.welcome'
+      const name = next(state).value;
+      next(state);
+      args.push(createNode('AST_NAMED_ARG', { name, expr: parseExpression(state) }, line));
+    } else {
+      args.push(parseExpression(state));
+    }
+
+    if (!acceptSymbol(state, ',')) {
+      break;
+    }
+  }
+
+  expectSymbol(state, ')');
+  return createNode('AST_ARG_LIST', args, open.line);
+};
+
+/**
+ * Parse member access, calls, static access and array access following an expression
+ */
+const parsePostfix = (state: ParserState, expr: PhpAstValue): PhpAstValue => {
+  while (true) {
+    const token = peek(state);
+    const line = token.line;
+
+    if (isSymbol(token, '->', '?->')) {
+      next(state);
+      const nullsafe = token.value === '?->';
+      const member = parseMemberName(state);
+      if (isSymbol(peek(state), '(')) {
+        expr = createNode(nullsafe ? 'AST_NULLSAFE_METHOD_CALL' : 'AST_METHOD_CALL', { expr, method: member, args: parseArgumentList(state) }, line);
+      } else {
+        expr = createNode(nullsafe ? 'AST_NULLSAFE_PROP' : 'AST_PROP', { expr, prop: member }, line);
+      }
+    } else if (isSymbol(token, '::')) {
+      next(state);
+      const memberToken = peek(state);
+      if (memberToken.type === 'variable') {
+        next(state);
+        const prop = createNode('AST_STATIC_PROP', { class: expr, prop: memberToken.value }, line);
+        // Class::$method() calls the method named by the variable
+        expr = isSymbol(peek(state), '(')
+          ? createNode('AST_STATIC_CALL', { class: expr, method: createNode('AST_VAR', { name: memberToken.value }, line), args: parseArgumentList(state) }, line)
+          : prop;
+      } else if (isKeyword(memberToken, 'class')) {
+        next(state);
+        expr = createNode('AST_CLASS_NAME', { class: expr }, line);
+      } else {
+        const member = parseMemberName(state);
+        expr = isSymbol(peek(state), '(')
+          ? createNode('AST_STATIC_CALL', { class: expr, method: member, args: parseArgumentList(state) }, line)
+          : createNode('AST_CLASS_CONST', { class: expr, const: member }, line);
+      }
+    } else if (isSymbol(token, '[')) {
+      next(state);
+      const dim = isSymbol(peek(state), ']') ? null : parseExpression(state);
+      expectSymbol(state, ']');
+      expr = createNode('AST_DIM', { expr, dim }, line);
+    } else if (isSymbol(token, '{') && isAstNode(expr) && expr.kind === 'AST_VAR') {
+      // Legacy string offset: $str{0}
+      next(state);
+      const dim = parseExpression(state);
+      expectSymbol(state, '}');
+      expr = createNode('AST_DIM', { expr, dim }, line);
+    } else if (isSymbol(token, '(')) {
+      expr = createNode('AST_CALL', { expr, args: parseArgumentList(state) }, line);
+    } else if (isSymbol(token, '++', '--')) {
+      next(state);
+      expr = createNode(token.value === '++' ? 'AST_POST_INC' : 'AST_POST_DEC', { var: expr }, line);
+    } else {
+      return expr;
+    }
+  }
+};
+
+/**
+ * Parse the member name after -> or ::, which may be a keyword, a variable or {expr}
+ */
+const parseMemberName = (state: ParserState): PhpAstValue => {
+  const token = next(state);
+  if (token.type === 'identifier') {
+    return token.value;
+  }
+  if (token.type === 'variable') {
+    return createNode('AST_VAR', { name: token.value }, token.line);
+  }
+  if (isSymbol(token, '{')) {
+    const expr = parseExpression(state);
+    expectSymbol(state, '}');
+    return expr;
+  }
+  throw unexpectedToken(token, 'a member name');
+};
+
+const parseNumber = (value: string): number => {
+  if (/^0[xX]/.test(value)) {
+    return parseInt(value.slice(2), 16);
+  }
+  if (/^0[bB]/.test(value)) {
+    return parseInt(value.slice(2), 2);
+  }
+  if (/^0[oO]?[0-7]+$/.test(value)) {
+    return parseInt(value.replace(/^0[oO]?/, ''), 8);
+  }
+  return Number(value);
+};
+
+/**
+ * Split an interpolated string body into literal parts and expressions
+ */
+const parseInterpolatedString = (body: string, line: number): PhpAstNode => {
+  const parts: PhpAstValue[] = [];
+  let literal = '';
+  let index = 0;
+
+  const flushLiteral = () => {
+    if (literal) {
+      parts.push(unescapeDoubleQuoted(literal));
+      literal = '';
+    }
+  };
+
+  while (index < body.length) {
+    const char = body[index];
+
+    if (char === '\\') {
+      literal += body.slice(index, index + 2);
+      index += 2;
+      continue;
+    }
+
+    // {$expr}
+    if (char === '{' && body[index + 1] === '$') {
+      const end = findInterpolationEnd(body, index);
+      flushLiteral();
+      parts.push(parsePhpExpression(body.slice(index + 1, end), line));
+      index = end + 1;
+      continue;
+    }
+
+    // ${name} and ${expr}
+    if (char === '$' && body[index + 1] === '{') {
+      const end = findInterpolationEnd(body, index + 1);
+      const inner = body.slice(index + 2, end);
+      flushLiteral();
+      parts.push(createNode('AST_VAR', { name: /^\w+$/.test(inner) ? inner : parsePhpExpression(inner, line) }, line));
+      index = end + 1;
+      continue;
+    }
+
+    // $name, $name->prop, $name[key]
+    const variableMatch = char === '$' ? body.slice(index).match(/^\$([A-Za-z_\x80-\uffff][\w\x80-\uffff]*)/) : null;
+    if (variableMatch) {
+      flushLiteral();
+      let expr: PhpAstNode = createNode('AST_VAR', { name: variableMatch[1] }, line);
+      index += variableMatch[0].length;
+
+      const propertyMatch = body.slice(index).match(/^(\?->|->)([A-Za-z_]\w*)/);
+      const offsetMatch = body.slice(index).match(/^\[(-?\d+|[A-Za-z_]\w*|\$[A-Za-z_]\w*)\]/);
+      if (propertyMatch) {
+        expr = createNode(propertyMatch[1] === '->' ? 'AST_PROP' : 'AST_NULLSAFE_PROP', { expr, prop: propertyMatch[2] }, line);
+        index += propertyMatch[0].length;
+      } else if (offsetMatch) {
+        const key = offsetMatch[1];
+        const dim = key.startsWith('$')
+          ? createNode('AST_VAR', { name: key.slice(1) }, line)
+          : /^-?\d+$/.test(key) ? Number(key) : key;
+        expr = createNode('AST_DIM', { expr, dim }, line);
+        index += offsetMatch[0].length;
+      }
+
+      parts.push(expr);
+      continue;
+    }
+
+    literal += char;
+    index++;
+  }
+
+  flushLiteral();
+  return createNode('AST_ENCAPS_LIST', parts, line);
+};
+
+/**
+ * Find the `}` closing the interpolation that opens at openIndex
+ */
+const findInterpolationEnd = (body: string, openIndex: number): number => {
+  let depth = 0;
+  for (let i = openIndex; i < body.length; i++) {
+    if (body[i] === '{') {
+      depth++;
+    } else if (body[i] === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    } else if (body[i] === '\'' || body[i] === '"') {
+      const quote = body[i];
+      for (i++; i < body.length && body[i] !== quote; i++) {
+        if (body[i] === '\\') {
+          i++;
+        }
+      }
+    }
+  }
+  return body.length;
+};
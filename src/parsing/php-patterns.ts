@@ -18,9 +18,26 @@ export interface PHPTypePattern {
  * Patterns for matching view() calls with different syntax variations
  */
 export const VIEW_CALL_PATTERNS = {
-  arraySyntax: /view\s*\(\s*['"]([^'"]+)['"]\s*,\s*\[([^\]]+)\]\s*\)/g,
-  compactSyntax: /view\s*\(\s*['"]([^'"]+)['"]\s*,\s*compact\s*\(\s*([^)]+)\s*\)\s*\)/g,
-  enhancedCall: /view\s*\(\s*['"]([^'"]+)['"]\s*,\s*(\[[\s\S]*?\]|\w+\([^)]*\)|compact\([^)]*\))\s*\)/g
+  arraySyntax: /(?<!->|::)view\s*\(\s*['"]([^'"]+)['"]\s*,\s*\[([^\]]+)\]\s*\)/g,
+  compactSyntax: /(?<!->|::)view\s*\(\s*['"]([^'"]+)['"]\s*,\s*compact\s*\(\s*([^)]+)\s*\)\s*\)/g,
+  enhancedCall: /(?<!->|::)view\s*\(\s*['"]([^'"]+)['"]\s*,\s*(\[[\s\S]*?\]|\w+\([^)]*\)|compact\([^)]*\))\s*\)/g,
+  viewCallStart: /(?:(?<!->|::)\bview|\bView::make|\bview\(\)->make)\s*\(\s*['"]([^'"]+)['"]/g,
+  withChainCall: /^\s*->\s*with([A-Z][a-zA-Z0-9_]*)?\s*\(/,
+  // View::make(), response()->view(), Response::view(), view()->first() and friends
+  alternativeCall: /\b(View::make|View::first|view\(\)->make|view\(\)->first|response\(\)->view|Response::view)\s*\(/g,
+  // view('name', new PostViewModel($post)) or view('name', $viewModel)
+  objectDataCall: /(?<!->|::)\bview\s*\(\s*['"]([^'"]+)['"]\s*,\s*(?=new\s|\$)/g
+} as const;
+
+/**
+ * Patterns for spatie/laravel-view-models classes
+ */
+export const VIEW_MODEL_PATTERNS = {
+  newInstance: /^new\s+(\\?[\w\\]+)\s*\(/,
+  // (new PostViewModel($post))->view('posts.show')
+  responsableInstance: /\(\s*new\s+(\\?[\w\\]+)\s*\(/g,
+  responsableView: /^\s*\)\s*->\s*view\s*\(\s*['"]([^'"]+)['"]/,
+  ignoreProperty: /\$ignore\s*=\s*\[([\s\S]*?)\]/
 } as const;
 
 /**
@@ -124,10 +141,35 @@ export const CLASS_PATTERNS = {
   constant: /const\s+([A-Z_][A-Z0-9_]*)\s*=\s*['"]([^'"]*)['"]/g,
   methodWithReturnType: /public\s+function\s+(\w+)\s*\([^)]*\)\s*:\s*(\w+)\s*\{/g,
   methodWithoutReturnType: /public\s+function\s+(\w+)\s*\([^)]*\)\s*\{([^}]+)\}/g,
-  fillableArray: /protected\s+\$fillable\s*=\s*\[([\s\S]*?)\]/,
-  castsArray: /protected\s+\$casts\s*=\s*\[([\s\S]*?)\]/,
-  datesArray: /protected\s+\$dates\s*=\s*\[([\s\S]*?)\]/,
-  phpDocProperty: /\*\s*@property\s+(\w+(?:\[\])?)\s+\$(\w+)/g
+  functionDeclaration: /\bfunction\s+&?\s*\w+\s*\(/g,
+  phpDocProperty: /\*\s*@property\s+(\w+(?:\[\])?)\s+\$(\w+)/g,
+  namespaceDeclaration: /^\s*namespace\s+([\w\\]+)\s*;/m,
+  useStatement: /^\s*use\s+([\w\\]+)(?:\s+as\s+(\w+))?\s*;/gm,
+  classReference: /^\\?([\w\\]+)::class$/,
+  className: /\bclass\s+([A-Za-z_][\w]*)/,
+  classDeclaration: /\b(?:class|trait)\s+[A-Za-z_]\w*[\w\s\\,]*\{/g,
+  parentClass: /\bclass\s+\w+\s+extends\s+([\w\\]+)/,
+  typeDeclaration: /^\s*(?:(?:abstract|final|readonly)\s+)*(?:class|interface|trait|enum)\s+([A-Za-z_]\w*)/gm,
+  publicProperty: /\bpublic\s+(?:readonly\s+)?(?:static\s+)?(\??[\w\\|]+\s+)?\$(\w+)\s*(?:=\s*([^;]+))?;/g,
+  publicMethod: /\bpublic\s+(?:static\s+)?function\s+&?(\w+)\s*\(/g,
+  constructorMethod: /\bfunction\s+__construct\s*\(/,
+  promotedParameter: /^(?:#\[[^\]]*\]\s*)?(public|protected|private)\s+(?:readonly\s+)?(\??[\w\\|]+\s+)?\$(\w+)(?:\s*=\s*([\s\S]+))?$/,
+  returnType: /^\s*:\s*(\??[\w\\|]+)/
+} as const;
+
+
+/**
+ * Patterns for the service container: resolving calls and provider bindings
+ */
+export const CONTAINER_PATTERNS = {
+  // app(Foo::class), resolve(Foo::class), App::make(Foo::class), app()->make(Foo::class)
+  resolveCall: /^(?:(?:\\?(?:Illuminate\\Support\\Facades\\)?App::|\\?app\(\)\s*->\s*|\$this->app->)(?:make|makeWith|get)|\\?(?:app|resolve))\s*\(/,
+  // $this->app->bind(Contract::class, Implementation::class), singleton, scoped and their *If variants
+  bindingCall: /(?:\$this->app->|\bapp\(\)\s*->\s*|\bApp::)(?:bind|singleton|scoped)(?:If)?\s*\(/g,
+  bindingProperty: /\bpublic\s+(?:array\s+)?\$(?:bindings|singletons)\s*=\s*\[/g,
+  closureReturnType: /^(?:static\s+)?(?:function|fn)\s*\([^)]*\)\s*:\s*\??([\w\\]+)/,
+  newInstance: /\bnew\s+([\w\\]+)/,
+  injectDirective: /@inject\s*\(/g
 } as const;
 
 /**
@@ -148,12 +190,70 @@ export const RELATION_PATTERNS = [
   }
 ] as const;
 
+/**
+ * Patterns for class-based Blade components
+ */
+export const COMPONENT_PATTERNS = {
+  renderMethod: /\bfunction\s+render\s*\(\s*\)/,
+  renderedView: /\bview\s*\(\s*['"]([^'"]+)['"]/
+} as const;
+
+/**
+ * Patterns for Livewire components
+ */
+export const LIVEWIRE_PATTERNS = {
+  computedAttribute: /#\[\s*(?:\\?Livewire\\Attributes\\)?Computed\b[^\]]*\]\s*(?:#\[[^\]]*\]\s*)*public\s+function\s+(\w+)/g,
+  computedGetter: /^get(\w+)Property$/
+} as const;
+
+/**
+ * Patterns for Mailables and mail notifications
+ */
+export const MAIL_PATTERNS = {
+  mailableClass: /\bextends\s+\\?(?:[\w\\]*\\)?Mailable\b/,
+  viewMethodCall: /->\s*(?:view|markdown|text)\s*\(\s*(?=['"])/g,
+  contentConstructor: /\bnew\s+\\?(?:[\w\\]*\\)?Content\s*\(/g,
+  contentNamedView: /^(?:view|html|text|markdown)\s*:\s*['"]([^'"]+)['"]$/,
+  contentNamedWith: /^with\s*:\s*([\s\S]+)$/,
+  withCall: /->\s*with(?:[A-Z]\w*)?\s*\(/g,
+  // The methods whose ->with() calls pass data to the mailable's views
+  dataMethodDeclaration: /^function\s+&?\s*(?:build|content)\s*\(/
+} as const;
+
+/**
+ * Patterns for session flash data
+ */
+export const SESSION_PATTERNS = {
+  redirectStart: /\b(?:redirect|back|to_route)\s*\(|\bRedirect::\w+\s*\(/g,
+  chainedCall: /^\s*->\s*(\w+)\s*\(/,
+  flashCall: /(?:\bsession\(\)\s*->\s*|->\s*session\(\)\s*->\s*|\bSession::)(?:flash|now)\s*\(/g,
+  // Blade: session('key'), @session('key'), Session::get('key'), session()->get('key')
+  keyAccess: /(?:@session|\bsession|\bSession::(?:get|has|pull)|\bsession\(\)\s*->\s*(?:get|has|pull))\s*\(\s*['"]([^'"]+)['"]/g,
+  keyAccessPrefix: /(?:@session|\bsession|\bSession::(?:get|has|pull)|\bsession\(\)\s*->\s*(?:get|has|pull))\s*\(\s*['"]([\w.\-]*)$/,
+  sessionBlock: /@session\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  sessionBlockEnd: /@endsession\b/g
+} as const;
+
+/**
+ * Patterns for route files
+ */
+export const ROUTE_PATTERNS = {
+  viewRoute: /\bRoute::view\s*\(/g
+} as const;
+
 /**
  * Patterns for Blade template parsing
  */
 export const BLADE_PATTERNS = {
   foreach: /foreach\s*\(\s*\$(\w+)\s+as\s+\$(\w+)\s*\)/g,
-  forelse: /forelse\s*\(\s*\$(\w+)\s+as\s+\$(\w+)\s*\)/g
+  forelse: /forelse\s*\(\s*\$(\w+)\s+as\s+\$(\w+)\s*\)/g,
+  propsDirective: /@(props|aware)\s*\(/g,
+  componentTag: /<x-([\w.\-]+)/g,
+  boundAttribute: /(?:^|\s):(\$?[\w\-]+)(?:\s*=\s*"([^"]*)")?/g,
+  comment: /\{\{--([\s\S]*?)--\}\}/g,
+  // @php ... @endphp blocks (not the inline @php($expr) form) and raw <?php ... ?> sections
+  phpBlock: /@php\b(?!\s*\()([\s\S]*?)@endphp\b|<\?php\b([\s\S]*?)(?:\?>|$)/g,
+  docComment: /\/\*\*[\s\S]*?\*\//g
 } as const;
 
 /**
@@ -0,0 +1,129 @@
+/**
+ * Methods of classes declared in other files of the workspace, found through their traits and parent classes.
+ * Their return types type the result of calls such as $this->orders->recentFor($user) or OrderService::make().
+ */
+import * as fs from 'fs';
+import { PhpAstNode, getAstChild, getAstChildren, getAstName, isAstNode, printAstType, walkAst } from './php-ast';
+import { parsePhp } from './php-parser';
+import { findDocTagType, normalizeDocType, resolveClassFilePath } from './php-class';
+
+// Parents and traits are followed at most this deep
+const MAX_DEPTH = 10;
+
+/**
+ * Declaration of a method in the workspace, with the class or trait that declares it
+ */
+export type PhpMethodDeclaration = {
+  node: PhpAstNode;
+  className: string;
+  classCode: string;
+  classPath: string;
+};
+
+/**
+ * Resolve the return type of className::methodName(), with the class name resolved against the use statements
+ * of phpCode. The @return tag wins over the declared type, as it is usually more precise (Collection<int, Order>).
+ * Methods inherited from a parent class or trait are found too; undefined when the method or its type is unknown.
+ */
+export const resolveMethodReturnType = (
+  className: string,
+  methodName: string,
+  phpCode: string,
+  calledClassName = className.split('\\').pop() || className
+): string | undefined => {
+  const declaration = findMethodDeclaration(className, methodName, phpCode);
+  if (!declaration) {
+    return undefined;
+  }
+
+  const docComment = getAstChild(declaration.node, 'docComment');
+  const returnTypes = [
+    typeof docComment === 'string' ? findDocTagType(docComment, ['phpstan-return', 'psalm-return', 'return']) : undefined,
+    printAstType(getAstChild(declaration.node, 'returnType'))
+  ];
+
+  // self is the declaring class, static and $this the class the method was called on
+  return returnTypes
+    .map(returnType => returnType && normalizeDocType(returnType.replace(/\bstatic\b|\$this/g, calledClassName), declaration.className))
+    .find(returnType => returnType && !['mixed', 'void', 'never'].includes(returnType));
+};
+
+/**
+ * Find the declaration of className::methodName(), with the class name resolved against the use statements
+ * of phpCode. The class itself wins over its traits, which win over its parent class.
+ */
+export const findMethodDeclaration = (
+  className: string,
+  methodName: string,
+  phpCode: string,
+  depth = 0
+): PhpMethodDeclaration | undefined => {
+  const classPath = depth <= MAX_DEPTH ? resolveClassFilePath(className, phpCode) : null;
+  if (!classPath) {
+    return undefined;
+  }
+
+  const classCode = fs.readFileSync(classPath, 'utf8');
+  const classNode = findClassNode(classCode, className.split('\\').pop() || className);
+  return classNode ? findMethodInClass(classNode, methodName, classCode, classPath, depth) : undefined;
+};
+
+/**
+ * Find a method declared by a parsed class, one of its traits or one of its parent classes
+ */
+export const findMethodInClass = (
+  classNode: PhpAstNode,
+  methodName: string,
+  classCode: string,
+  classPath: string,
+  depth = 0
+): PhpMethodDeclaration | undefined => {
+  const members = getAstChild(classNode, 'stmts');
+
+  for (const member of isAstNode(members) ? getAstChildren(members) : []) {
+    if (isAstNode(member, 'AST_METHOD') && getAstName(getAstChild(member, 'name'))?.toLowerCase() === methodName.toLowerCase()) {
+      return { node: member, className: getAstName(getAstChild(classNode, 'name')) || '', classCode, classPath };
+    }
+  }
+
+  for (const traitName of findUsedTraits(classNode)) {
+    const traitMethod = findMethodDeclaration(traitName, methodName, classCode, depth + 1);
+    if (traitMethod) {
+      return traitMethod;
+    }
+  }
+
+  const parentName = getAstName(getAstChild(classNode, 'extends'));
+  return parentName ? findMethodDeclaration(parentName, methodName, classCode, depth + 1) : undefined;
+};
+
+/**
+ * Find the declaration of a class, trait or interface by its short name
+ */
+export const findClassNode = (classCode: string, shortName: string): PhpAstNode | undefined => {
+  let classNode: PhpAstNode | undefined;
+
+  walkAst(parsePhp(classCode), (node) => {
+    if (!classNode && node.kind === 'AST_CLASS' && getAstChild(node, 'name') === shortName) {
+      classNode = node;
+    }
+  });
+
+  return classNode;
+};
+
+/**
+ * List the names of the traits a parsed class uses, as written in its use statements
+ */
+export const findUsedTraits = (classNode: PhpAstNode): string[] => {
+  const members = getAstChild(classNode, 'stmts');
+
+  return (isAstNode(members) ? getAstChildren(members) : [])
+    .filter(member => isAstNode(member, 'AST_USE_TRAIT'))
+    .flatMap(member => {
+      const traits = getAstChild(member as PhpAstNode, 'traits');
+      return isAstNode(traits) ? getAstChildren(traits) : [];
+    })
+    .map(getAstName)
+    .filter((name): name is string => !!name);
+};
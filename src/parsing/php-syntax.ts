@@ -0,0 +1,106 @@
+/**
+ * Lightweight PHP source helpers for bracket matching and argument splitting
+ */
+
+/**
+ * Find the bracket closing the one at openIndex, skipping nested brackets and string literals
+ */
+export const findClosingBracket = (code: string, openIndex: number): number => {
+  const closers: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+  const expected: string[] = [];
+
+  for (let i = openIndex; i < code.length; i++) {
+    const char = code[i];
+
+    if (char === '\'' || char === '"') {
+      // Skip over the string literal
+      const closingQuote = findClosingQuote(code, i);
+      if (closingQuote === -1) {
+        return -1;
+      }
+      i = closingQuote;
+      continue;
+    }
+
+    if (closers[char]) {
+      expected.push(closers[char]);
+    } else if (char === expected[expected.length - 1]) {
+      expected.pop();
+      if (expected.length === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Split an argument list on top-level commas
+ */
+export const splitTopLevelArguments = (argsString: string): string[] => {
+  const args: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < argsString.length) {
+    const char = argsString[i];
+    if ('([{\'"'.includes(char)) {
+      const end = char === '\'' || char === '"'
+        ? findClosingQuote(argsString, i)
+        : findClosingBracket(argsString, i);
+      i = end === -1 ? argsString.length : end + 1;
+      continue;
+    }
+    if (char === ',') {
+      args.push(argsString.slice(start, i).trim());
+      start = i + 1;
+    }
+    i++;
+  }
+
+  const lastArg = argsString.slice(start).trim();
+  if (lastArg) {
+    args.push(lastArg);
+  }
+
+  return args;
+};
+
+/**
+ * Find the semicolon ending the statement that starts at startIndex, skipping brackets and string literals.
+ * Returns the last index of the code when the statement is not terminated.
+ */
+export const findStatementEnd = (code: string, startIndex: number): number => {
+  for (let i = startIndex; i < code.length; i++) {
+    const char = code[i];
+    if ('([{\'"'.includes(char)) {
+      const end = char === '\'' || char === '"'
+        ? findClosingQuote(code, i)
+        : findClosingBracket(code, i);
+      if (end === -1) {
+        break;
+      }
+      i = end;
+    } else if (char === ';') {
+      return i;
+    }
+  }
+
+  return code.length - 1;
+};
+
+/**
+ * Find the closing quote of the string literal starting at openIndex
+ */
+export const findClosingQuote = (code: string, openIndex: number): number => {
+  const quote = code[openIndex];
+  for (let i = openIndex + 1; i < code.length; i++) {
+    if (code[i] === '\\') {
+      i++;
+    } else if (code[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+};
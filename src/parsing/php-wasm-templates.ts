@@ -4,15 +4,51 @@
  */
 
 /**
- * PHP script template for AST parsing
+ * PHP script template for AST parsing.
+ * Nodes are exported as {kind, flags, lineno, endLineno?, children} with kind and flag names (see php-ast.ts)
  */
 export const createASTParsingScript = (phpCode: string): string => {
   return `<?php
 $code = ${JSON.stringify(phpCode)};
+
+function export_ast_node($node, $metadata) {
+    if (is_array($node)) {
+        return array_map(function ($child) use ($metadata) {
+            return export_ast_node($child, $metadata);
+        }, $node);
+    }
+    if (!($node instanceof ast\\Node)) {
+        return $node;
+    }
+
+    $flags = [];
+    if (isset($metadata[$node->kind])) {
+        $kindMetadata = $metadata[$node->kind];
+        foreach ($kindMetadata->flags as $flagName) {
+            $flag = constant($flagName);
+            $isSet = $kindMetadata->flagsCombinable ? ($node->flags & $flag) === $flag : $node->flags === $flag;
+            if ($isSet) {
+                $flags[] = substr($flagName, strrpos($flagName, '\\\\') + 1);
+            }
+        }
+    }
+
+    $result = [
+        'kind' => ast\\get_kind_name($node->kind),
+        'flags' => $flags,
+        'lineno' => $node->lineno,
+        'children' => export_ast_node($node->children, $metadata),
+    ];
+    if (isset($node->endLineno)) {
+        $result['endLineno'] = $node->endLineno;
+    }
+    return $result;
+}
+
 try {
     $ast = ast\\parse_code($code, $version=70);
-    echo json_encode($ast, JSON_PRETTY_PRINT);
-} catch (Exception $e) {
+    echo json_encode(export_ast_node($ast, ast\\get_metadata()), JSON_INVALID_UTF8_SUBSTITUTE);
+} catch (Throwable $e) {
     echo json_encode(['error' => $e->getMessage()]);
 }`;
 };
@@ -65,6 +101,11 @@ echo json_encode($methods, JSON_PRETTY_PRINT);`;
  * Create wrapper for PHP code to make it valid for parsing
  */
 export const createPHPWrapper = (phpCode: string): string => {
+  // Files that already open with <?php are valid as-is, which also keeps AST line numbers exact
+  if (phpCode.trimStart().startsWith('<?php')) {
+    return phpCode;
+  }
+
   return `<?php
 ${phpCode}
 `;
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { BLADE_PATTERNS } from './php-patterns';
+import { getLineNumber, joinUnionTypes } from './php-class';
+import { findClosingBracket, findClosingQuote, splitTopLevelArguments } from './php-syntax';
+import {
+  BladeVarInfo,
+  PHPType,
+  inferTypeProperties,
+  inferValueType,
+  matchesBladeUri,
+  resolvePropertyChainType
+} from './scan-controller';
+import { createComponentContextVariables } from './scan-components';
+
+/**
+ * Scan all Blade views using VSCode API.
+ */
+export const listBladeFiles = async (): Promise<vscode.Uri[]> => {
+  return vscode.workspace.findFiles('resources/views/**/*.blade.php', '{**/vendor/**,**/node_modules/**}');
+};
+
+/**
+ * Parse @props and @aware in an anonymous component view
+ */
+export const parseAnonymousComponentVariables = (bladePath: string): BladeVarInfo[] => {
+  try {
+    const bladeContent = fs.readFileSync(bladePath, 'utf-8');
+    const bladeVarInfo: BladeVarInfo[] = [];
+    const directivePattern = BLADE_PATTERNS.propsDirective;
+
+    let directiveMatch;
+    while ((directiveMatch = directivePattern.exec(bladeContent)) !== null) {
+      const openParen = directiveMatch.index + directiveMatch[0].length - 1;
+      const closeParen = findClosingBracket(bladeContent, openParen);
+      const arrayMatch = closeParen === -1
+        ? null
+        : bladeContent.slice(openParen + 1, closeParen).trim().match(/^\[([\s\S]*)\]$/);
+      if (!arrayMatch) {
+        continue;
+      }
+
+      // @props(['user', 'size' => 'md']): plain names have no default, keyed entries do
+      for (const entry of splitTopLevelArguments(arrayMatch[1])) {
+        const entryMatch = entry.match(/^['"]([\w-]+)['"](?:\s*=>\s*([\s\S]+))?$/);
+        if (!entryMatch) {
+          continue;
+        }
+
+        const [, propName, defaultValue] = entryMatch;
+        const propType = defaultValue ? inferPropDefaultType(defaultValue) : 'mixed';
+
+        bladeVarInfo.push({
+          name: '$' + toCamelCase(propName),
+          source: `@${directiveMatch[1]}`,
+          jumpTargetUri: `file://${bladePath}`,
+          definedInPath: bladePath,
+          definedInLine: getLineNumber(bladeContent, directiveMatch.index),
+          type: propType,
+          properties: inferTypeProperties(propType)
+        });
+      }
+    }
+
+    if (bladeVarInfo.length > 0) {
+      bladeVarInfo.push(...createComponentContextVariables(getViewName(bladePath), bladePath));
+    }
+
+    return bladeVarInfo;
+  } catch (error) {
+    console.error(`Error parsing component view ${bladePath}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Type @props without a usable default from the :prop="$expr" bindings at their call sites
+ */
+export const inferPropTypesFromCallSites = (
+  componentVarInfos: BladeVarInfo[],
+  knownVarInfos: BladeVarInfo[],
+  bladePaths: string[]
+) => {
+  // Collect the types bound to each component prop across all call sites
+  const boundTypes = new Map<string, Set<string>>();
+
+  for (const bladePath of bladePaths) {
+    let bladeContent: string;
+    try {
+      bladeContent = fs.readFileSync(bladePath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const callerUri = `file://${bladePath}`;
+    const tagPattern = new RegExp(BLADE_PATTERNS.componentTag);
+
+    let tagMatch;
+    while ((tagMatch = tagPattern.exec(bladeContent)) !== null) {
+      const tagEnd = findTagEnd(bladeContent, tagMatch.index + tagMatch[0].length);
+      const attributes = bladeContent.slice(tagMatch.index + tagMatch[0].length, tagEnd);
+      const componentUris = getComponentViewUris(tagMatch[1]);
+
+      for (const attributeMatch of attributes.matchAll(BLADE_PATTERNS.boundAttribute)) {
+        // :$user is shorthand for :user="$user"
+        const [, attributeName, expression] = attributeMatch;
+        const propName = toCamelCase(attributeName.replace(/^\$/, ''));
+        const boundExpression = expression ?? (attributeName.startsWith('$') ? attributeName : undefined);
+        if (!boundExpression) {
+          continue;
+        }
+
+        const boundType = resolveBoundExpressionType(boundExpression.trim(), callerUri, knownVarInfos);
+        if (boundType === 'mixed') {
+          continue;
+        }
+
+        for (const componentUri of componentUris) {
+          const key = `${componentUri}#$${propName}`;
+          boundTypes.set(key, (boundTypes.get(key) || new Set()).add(boundType));
+        }
+      }
+    }
+  }
+
+  for (const info of componentVarInfos) {
+    const types = boundTypes.get(`${info.jumpTargetUri}#${info.name}`);
+    if (info.type === 'mixed' && types && types.size > 0) {
+      info.type = joinUnionTypes([...types]);
+      info.properties = inferTypeProperties(info.type);
+    }
+  }
+};
+
+/**
+ * Resolve the type of a bound attribute expression as seen from the calling view
+ */
+const resolveBoundExpressionType = (expression: string, callerUri: string, knownVarInfos: BladeVarInfo[]): PHPType => {
+  const chainMatch = expression.match(/^\$([a-zA-Z_][a-zA-Z0-9_]*)((?:->[a-zA-Z_][a-zA-Z0-9_]*(?:\(\))?)*)$/);
+  if (!chainMatch) {
+    return expression.startsWith('$') ? 'mixed' : inferValueType(expression);
+  }
+
+  const varInfo = knownVarInfos.find(v => matchesBladeUri(v.jumpTargetUri, callerUri) && v.name === '$' + chainMatch[1]);
+  return varInfo ? resolvePropertyChainType(varInfo.type || 'mixed', chainMatch[2]) : 'mixed';
+};
+
+/**
+ * Type a @props default value; null defaults carry no type information
+ */
+const inferPropDefaultType = (defaultValue: string): PHPType => {
+  return /^null$/i.test(defaultValue.trim()) ? 'mixed' : inferValueType(defaultValue);
+};
+
+/**
+ * Find the end of a component tag, ignoring '>' inside quoted attribute values
+ */
+const findTagEnd = (bladeContent: string, start: number): number => {
+  for (let i = start; i < bladeContent.length; i++) {
+    if (bladeContent[i] === '"' || bladeContent[i] === '\'') {
+      const closingQuote = findClosingQuote(bladeContent, i);
+      i = closingQuote === -1 ? bladeContent.length : closingQuote;
+    } else if (bladeContent[i] === '>') {
+      return i;
+    }
+  }
+  return bladeContent.length;
+};
+
+/**
+ * Candidate view files for a component tag: <x-forms.input> => components/forms/input(.blade.php|/index.blade.php|/input.blade.php)
+ */
+const getComponentViewUris = (tagName: string): string[] => {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath || process.cwd();
+  const relativePath = tagName.replace(/\./g, '/');
+  const lastSegment = relativePath.split('/').pop();
+  const basePath = `file://${workspaceRoot}/resources/views/components/${relativePath}`;
+
+  return [
+    `${basePath}.blade.php`,
+    `${basePath}/index.blade.php`,
+    `${basePath}/${lastSegment}.blade.php`
+  ];
+};
+
+/**
+ * Get the dot-notation view name of a Blade file under resources/views
+ */
+const getViewName = (bladePath: string): string => {
+  const relativeMatch = bladePath.replace(/\\/g, '/').match(/resources\/views\/(.+)\.blade\.php$/);
+  return relativeMatch ? relativeMatch[1].replace(/\//g, '.') : '';
+};
+
+/**
+ * Convert a kebab-case attribute name to the camelCase prop variable Laravel creates
+ */
+const toCamelCase = (value: string): string => {
+  return value.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+};
@@ -0,0 +1,105 @@
+import { BLADE_PATTERNS, CONTAINER_PATTERNS } from './php-patterns';
+import { createTypeUseStatements, getLineNumber, normalizeDocType, parseDocVarTags } from './php-class';
+import { findContainerCallClass } from './php-container';
+import { findClosingBracket, splitTopLevelArguments } from './php-syntax';
+import { BladeVarInfo, inferTypeProperties } from './scan-controller';
+
+/**
+ * Type to store a comment of a Blade view that may hold @var tags
+ */
+type BladeAnnotationComment = {
+  comment: string;
+  offset: number;
+  source: string;
+  assignedName?: string;
+};
+
+/**
+ * Parse the variable types declared in a Blade view itself: `{{-- @var \App\Models\User $user --}}`
+ * and @var doc comments in @php blocks. A later annotation of the same variable replaces an earlier one.
+ */
+export const parseBladeVarAnnotations = (bladeContent: string, bladePath: string): BladeVarInfo[] => {
+  const comments: BladeAnnotationComment[] = [];
+
+  for (const commentMatch of bladeContent.matchAll(BLADE_PATTERNS.comment)) {
+    comments.push({ comment: commentMatch[0], offset: commentMatch.index ?? 0, source: '{{-- @var --}}' });
+  }
+
+  for (const blockMatch of bladeContent.matchAll(BLADE_PATTERNS.phpBlock)) {
+    const blockCode = blockMatch[1] ?? blockMatch[2] ?? '';
+    const blockStart = (blockMatch.index ?? 0) + blockMatch[0].indexOf(blockCode);
+
+    for (const docMatch of blockCode.matchAll(BLADE_PATTERNS.docComment)) {
+      // A nameless @var types the assignment that follows: /** @var User */ $user = auth()->user();
+      const docEnd = (docMatch.index ?? 0) + docMatch[0].length;
+      comments.push({
+        comment: docMatch[0],
+        offset: blockStart + (docMatch.index ?? 0),
+        source: blockMatch[1] !== undefined ? '@php /** @var */' : '<?php /** @var */',
+        assignedName: blockCode.slice(docEnd).match(/^\s*\$(\w+)\s*=(?![=>])/)?.[1]
+      });
+    }
+  }
+
+  const annotations = new Map<string, BladeVarInfo>();
+  for (const { comment, offset, source, assignedName } of comments.sort((a, b) => a.offset - b.offset)) {
+    for (const tag of parseDocVarTags(comment)) {
+      const name = tag.name || assignedName;
+      if (!name) {
+        continue;
+      }
+
+      const type = normalizeDocType(tag.type);
+      const typeContext = createTypeUseStatements(tag.type);
+      annotations.set(name, {
+        name: '$' + name,
+        source,
+        jumpTargetUri: `file://${bladePath}`,
+        docComment: comment.trim(),
+        definedInPath: bladePath,
+        definedInLine: getLineNumber(bladeContent, offset),
+        type,
+        typeContext,
+        properties: inferTypeProperties(type, typeContext)
+      });
+    }
+  }
+
+  return [...annotations.values()];
+};
+
+/**
+ * Parse the services a Blade view pulls from the container: @inject('metrics', 'App\Services\MetricsService')
+ */
+export const parseBladeInjections = (bladeContent: string, bladePath: string): BladeVarInfo[] => {
+  const injections: BladeVarInfo[] = [];
+
+  for (const injectMatch of bladeContent.matchAll(CONTAINER_PATTERNS.injectDirective)) {
+    const openParen = (injectMatch.index ?? 0) + injectMatch[0].length - 1;
+    const closeParen = findClosingBracket(bladeContent, openParen);
+    const [nameArgument, serviceArgument] = closeParen === -1
+      ? []
+      : splitTopLevelArguments(bladeContent.slice(openParen + 1, closeParen));
+    const name = nameArgument?.match(/^['"](\w+)['"]$/)?.[1];
+    // Resolved like app('...'), so that bindings apply; the view has no use statements
+    const serviceClass = name && serviceArgument ? findContainerCallClass(`app(${serviceArgument})`, '') : undefined;
+    if (!name || !serviceClass) {
+      continue;
+    }
+
+    const type = normalizeDocType(serviceClass);
+    const typeContext = createTypeUseStatements(serviceClass);
+    injections.push({
+      name: '$' + name,
+      source: '@inject',
+      jumpTargetUri: `file://${bladePath}`,
+      definedInPath: bladePath,
+      definedInLine: getLineNumber(bladeContent, injectMatch.index),
+      type,
+      typeContext,
+      properties: inferTypeProperties(type, typeContext)
+    });
+  }
+
+  return injections;
+};
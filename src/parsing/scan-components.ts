@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { CLASS_PATTERNS, COMPONENT_PATTERNS } from './php-patterns';
+import { parsePublicMembers } from './php-class';
+import { findClosingBracket } from './php-syntax';
+import { BladeVarInfo, addClassMemberVariable, convertToBladeFilePath } from './scan-controller';
+
+/**
+ * Methods of Illuminate\View\Component that are not exposed to the component view
+ */
+const RESERVED_COMPONENT_METHODS = [
+  'data',
+  'render',
+  'resolve',
+  'resolveView',
+  'shouldRender',
+  'view',
+  'withName',
+  'withAttributes',
+  'flushCache',
+  'forgetFactory',
+  'forgetComponentsResolver',
+  'resolveComponentsUsing'
+];
+
+/**
+ * Scan all class-based Blade components using VSCode API.
+ */
+export const listComponentFiles = async (): Promise<vscode.Uri[]> => {
+  return vscode.workspace.findFiles('app/View/Components/**/*.php', '{**/vendor/**,**/node_modules/**}');
+};
+
+/**
+ * Parse a component class and expose its public properties and methods to the component view
+ */
+export const parseComponentVariables = (componentPath: string): BladeVarInfo[] => {
+  try {
+    const phpCode = fs.readFileSync(componentPath, 'utf-8');
+    const className = phpCode.match(CLASS_PATTERNS.className)?.[1];
+    const viewName = resolveComponentViewName(phpCode, componentPath);
+    if (!className || !viewName) {
+      return [];
+    }
+
+    const bladeVarInfo: BladeVarInfo[] = [];
+
+    for (const member of parsePublicMembers(phpCode)) {
+      if (member.isMethod && RESERVED_COMPONENT_METHODS.includes(member.name)) {
+        continue;
+      }
+      addClassMemberVariable(member, viewName, className, componentPath, bladeVarInfo);
+    }
+
+    bladeVarInfo.push(...createComponentContextVariables(viewName, componentPath));
+
+    return bladeVarInfo.filter(info => info.jumpTargetUri);
+  } catch (error) {
+    console.error(`Error parsing component ${componentPath}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Variables Laravel provides to every component view: $attributes and $slot
+ */
+export const createComponentContextVariables = (viewName: string, definedInPath: string): BladeVarInfo[] => {
+  const jumpTargetUri = convertToBladeFilePath(viewName) || '';
+
+  return [
+    {
+      name: '$attributes',
+      source: 'component attributes',
+      jumpTargetUri,
+      definedInPath,
+      type: 'ComponentAttributeBag'
+    },
+    {
+      name: '$slot',
+      source: 'component slot',
+      jumpTargetUri,
+      definedInPath,
+      type: 'ComponentSlot'
+    }
+  ];
+};
+
+/**
+ * Resolve the view rendered by a component: view() in render(), or the conventional components.* name
+ */
+const resolveComponentViewName = (phpCode: string, componentPath: string): string | undefined => {
+  return findRenderedViewName(phpCode) || getConventionalViewName(componentPath, /app\/View\/Components\/(.+)\.php$/, 'components');
+};
+
+/**
+ * Find the view returned by view('...') inside a class's render() method
+ */
+export const findRenderedViewName = (phpCode: string): string | undefined => {
+  const renderMatch = phpCode.match(COMPONENT_PATTERNS.renderMethod);
+  if (!renderMatch || renderMatch.index === undefined) {
+    return undefined;
+  }
+
+  const bodyOpen = phpCode.indexOf('{', renderMatch.index + renderMatch[0].length);
+  const bodyClose = findClosingBracket(phpCode, bodyOpen);
+  const renderBody = phpCode.slice(bodyOpen, bodyClose === -1 ? undefined : bodyClose);
+
+  return renderBody.match(COMPONENT_PATTERNS.renderedView)?.[1];
+};
+
+/**
+ * Build the conventional view name from a class path: app/View/Components/Forms/TextInput.php => components.forms.text-input
+ */
+export const getConventionalViewName = (classPath: string, basePathPattern: RegExp, viewPrefix: string): string | undefined => {
+  const relativeMatch = classPath.replace(/\\/g, '/').match(basePathPattern);
+  if (!relativeMatch) {
+    return undefined;
+  }
+
+  return viewPrefix + '.' + relativeMatch[1]
+    .split('/')
+    .map(segment => toKebabCase(segment))
+    .join('.');
+};
+
+/**
+ * Convert a class name to kebab-case the way Laravel's Str::kebab does
+ */
+export const toKebabCase = (value: string): string => {
+  return value.replace(/(.)(?=[A-Z])/g, '$1-').toLowerCase();
+};
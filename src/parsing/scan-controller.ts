@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import { 
   VIEW_CALL_PATTERNS, 
+  VIEW_MODEL_PATTERNS,
   VARIABLE_PATTERNS, 
   TYPE_INFERENCE_PATTERNS, 
   ENUM_PATTERNS, 
@@ -16,6 +17,145 @@ import {
   createTokenParsingScript, 
   createPHPWrapper 
 } from './php-wasm-templates';
+import { findClosingBracket, findStatementEnd, splitTopLevelArguments } from './php-syntax';
+import { FlowTypeResolvers, inferFlowValueType, inferFlowVariableType } from './php-flow';
+import {
+  PhpMethodDeclaration,
+  findClassNode,
+  findMethodDeclaration,
+  findMethodInClass,
+  findUsedTraits,
+  resolveMethodReturnType
+} from './php-return-types';
+import { findContainerCallClass } from './php-container';
+import { findTableColumns, getConventionalTableName } from './php-migrations';
+import {
+  PhpClassMember,
+  findDocTagType,
+  findVarDocComment,
+  getLineOffset,
+  getIterableItemType,
+  getMethodScopeCode,
+  getTypeClassCode,
+  isSubclassOf,
+  joinUnionTypes,
+  normalizeDocType,
+  normalizeTypeHint,
+  parsePublicMembers,
+  resolveClassFilePath,
+  resolveClassName,
+  splitUnionType,
+  toSnakeCase
+} from './php-class';
+import {
+  PhpAstNode,
+  PhpAstValue,
+  findClassMethods,
+  findPropertyDefault,
+  getAstArrayEntries,
+  getAstCallArguments,
+  getAstChild,
+  getAstChildren,
+  getAstName,
+  isAstNode,
+  printAstExpression,
+  printAstType,
+  walkAst
+} from './php-ast';
+import { parsePhp, parsePhpExpression } from './php-parser';
+
+/**
+ * What hover tells about a model member besides its type
+ */
+export type ModelMemberNotes = {
+  accessor?: string;
+  hidden?: boolean;
+  appended?: boolean;
+  declaredIn?: string;
+  isMethod?: boolean;
+};
+
+/**
+ * A class or trait making up a model: its short name, code and parsed declaration
+ */
+type ModelSource = {
+  name: string;
+  code: string;
+  node: PhpAstNode;
+};
+
+/**
+ * Types of the built-in casts, by cast name without its parameters; encrypted takes the type it encrypts
+ */
+const CAST_TYPES: Record<string, string> = {
+  'int': 'int',
+  'integer': 'int',
+  'real': 'float',
+  'float': 'float',
+  'double': 'float',
+  // Decimals are cast to strings, which keep their precision
+  'decimal': 'string',
+  'string': 'string',
+  'bool': 'bool',
+  'boolean': 'bool',
+  'object': 'object',
+  'array': 'array',
+  'json': 'array',
+  'collection': 'Collection',
+  'date': 'Carbon',
+  'datetime': 'Carbon',
+  'custom_datetime': 'Carbon',
+  'immutable_date': 'CarbonImmutable',
+  'immutable_datetime': 'CarbonImmutable',
+  'immutable_custom_datetime': 'CarbonImmutable',
+  'timestamp': 'int',
+  'hashed': 'string',
+  'encrypted': 'string',
+  'encrypted:array': 'array',
+  'encrypted:json': 'array',
+  'encrypted:collection': 'Collection',
+  'encrypted:object': 'object'
+};
+
+/**
+ * Base classes of Eloquent models, whose API comes from their attributes rather than their public members
+ */
+const MODEL_BASE_CLASSES = ['Model', 'Authenticatable', 'Pivot', 'MorphPivot'];
+
+/**
+ * The Eloquent base model, where walking up a model's parent classes stops
+ */
+const ELOQUENT_MODEL_CLASS = 'Illuminate\\Database\\Eloquent\\Model';
+
+/**
+ * Parent classes and traits of a model are followed at most this deep
+ */
+const MAX_MODEL_HIERARCHY_DEPTH = 10;
+
+/**
+ * Attributes framework traits add to a model through their initialize methods, by trait name
+ */
+const TRAIT_ATTRIBUTES: Record<string, Record<string, string>> = {
+  'SoftDeletes': { 'deleted_at': '?Carbon' },
+  'HasUuids': { 'id': 'string' },
+  'HasUlids': { 'id': 'string' }
+};
+
+/**
+ * Helper methods returning view data, and render helpers wrapping view(), are followed at most this deep
+ */
+const MAX_HELPER_DEPTH = 3;
+
+/**
+ * A view rendered by a call, with the view name argument as written and the data passed to it;
+ * response()->view() and Response::view() give a response rather than a view
+ */
+type RenderedView = {
+  viewNames: string[];
+  viewArgument?: PhpAstValue;
+  data?: PhpAstValue;
+  isResponse?: boolean;
+};
 
 /**
  * Scan all controllers using VSCode API.
@@ -38,7 +178,7 @@ export const listControllerFiles = async (controllersPath: string): Promise<vsco
 };
 
 /**
- * Parse controller code and extract variables passed to views using PHP-WASM or regex fallback
+ * Parse controller code and extract variables passed to views using PHP-WASM, the built-in PHP parser or regex fallback
  */
 export const parseViewVariablesFromController = async (controllerPath: string, phpWasm?: any, phpWasmReady?: boolean): Promise<BladeVarInfo[]> => {
   try {
@@ -48,15 +188,22 @@ export const parseViewVariablesFromController = async (controllerPath: string, p
     // Try PHP-WASM first if available
     if (phpWasmReady && phpWasm) {
       try {
-        const phpWasmResults = parseWithPhpWasm(rawCode, controllerPath, phpWasm);
+        const phpWasmResults = await parseWithPhpWasm(rawCode, controllerPath, phpWasm);
         if (phpWasmResults.length > 0) {
           return phpWasmResults;
         }
       } catch (phpWasmError) {
-        console.warn(`PHP-WASM parsing failed for ${controllerPath}, falling back to regex:`, phpWasmError);
+        console.warn(`PHP-WASM parsing failed for ${controllerPath}, falling back to built-in parser:`, phpWasmError);
       }
     }
 
+    // Built-in PHP parser (basic mode)
+    try {
+      return parseViewCallsFromAst(parsePhp(rawCode), rawCode, controllerPath).filter(info => info.jumpTargetUri);
+    } catch (parserError) {
+      console.warn(`Built-in PHP parser failed for ${controllerPath}, falling back to regex:`, parserError);
+    }
+
     // Fallback to regex parsing
 
     // Pattern to match view() calls with arrays: view('name', [...])
@@ -75,22 +222,23 @@ export const parseViewVariablesFromController = async (controllerPath: string, p
       while ((varMatch = varPattern.exec(varsString)) !== null) {
         const varName = '$' + varMatch[1];
         const sourceVar = '$' + varMatch[2];
-        const inferredType = inferVariableType(rawCode, varMatch[2]);
-        const properties = inferTypeProperties(inferredType);
+        const scopeCode = getMethodScopeCode(rawCode, viewMatch.index);
+        const inferredType = inferVariableType(scopeCode, varMatch[2]);
+        const properties = inferTypeProperties(inferredType, rawCode);
 
         bladeVarInfo.push({
           name: varName,
           source: sourceVar,
           jumpTargetUri: convertToBladeFilePath(viewName) || '',
           definedInPath: controllerPath,
+          docComment: findVarDocComment(scopeCode, varMatch[2]),
           type: inferredType,
           properties: properties
         });
 
-        // If it's a collection type, add the individual item type for foreach loops
-        if (inferredType.startsWith('Collection<') && inferredType.endsWith('>')) {
-          const itemType = inferredType.slice(11, -1); // Extract Model from Collection<Model>
-          
+        // If it's a collection or list type, add the individual item type for foreach loops
+        const itemType = getIterableItemType(inferredType);
+        if (itemType) {
           // Parse Blade template to find actual foreach variable names
           const bladeFilePath = convertToBladeFilePath(viewName);
           if (bladeFilePath) {
@@ -103,7 +251,7 @@ export const parseViewVariablesFromController = async (controllerPath: string, p
                 jumpTargetUri: bladeFilePath,
                 definedInPath: controllerPath,
                 type: itemType,
-                properties: inferTypeProperties(itemType)
+                properties: inferTypeProperties(itemType, rawCode)
               });
             }
           }
@@ -124,8 +272,9 @@ export const parseViewVariablesFromController = async (controllerPath: string, p
       
       for (const varName of varNames) {
         if (varName) {
-          const inferredType = inferVariableType(rawCode, varName);
-          const properties = inferTypeProperties(inferredType);
+          const scopeCode = getMethodScopeCode(rawCode, compactMatch.index);
+          const inferredType = inferVariableType(scopeCode, varName);
+          const properties = inferTypeProperties(inferredType, rawCode);
           const fullVarName = '$' + varName;
           
           bladeVarInfo.push({
@@ -133,14 +282,14 @@ export const parseViewVariablesFromController = async (controllerPath: string, p
             source: fullVarName,
             jumpTargetUri: convertToBladeFilePath(viewName) || '',
             definedInPath: controllerPath,
+            docComment: findVarDocComment(scopeCode, varName),
             type: inferredType,
             properties: properties
           });
 
-          // If it's a collection type, add the individual item type for foreach loops
-          if (inferredType.startsWith('Collection<') && inferredType.endsWith('>')) {
-            const itemType = inferredType.slice(11, -1); // Extract Model from Collection<Model>
-            
+          // If it's a collection or list type, add the individual item type for foreach loops
+          const itemType = getIterableItemType(inferredType);
+          if (itemType) {
             // Parse Blade template to find actual foreach variable names
             const bladeFilePath = convertToBladeFilePath(viewName);
             if (bladeFilePath) {
@@ -153,7 +302,7 @@ export const parseViewVariablesFromController = async (controllerPath: string, p
                   jumpTargetUri: bladeFilePath,
                   definedInPath: controllerPath,
                   type: itemType,
-                  properties: inferTypeProperties(itemType)
+                  properties: inferTypeProperties(itemType, rawCode)
                 });
               }
             }
@@ -162,6 +311,15 @@ export const parseViewVariablesFromController = async (controllerPath: string, p
       }
     }
 
+    // Also look for ->with() chains: view('name')->with('key', $value)->withFoo($foo)
+    parseWithChainVariables(rawCode, controllerPath, bladeVarInfo);
+
+    // View::make(), response()->view(), Response::view() and view()->first()
+    parseAlternativeViewCalls(rawCode, controllerPath, bladeVarInfo);
+
+    // View models: view('name', new PostViewModel($post))
+    parseViewModelCalls(rawCode, controllerPath, bladeVarInfo);
+
     return bladeVarInfo.filter(info => info.jumpTargetUri);
   } catch (error) {
     console.error(`Error parsing ${controllerPath}:`, error);
@@ -170,15 +328,90 @@ export const parseViewVariablesFromController = async (controllerPath: string, p
 };
 
 /**
- * Infer variable type from PHP code context
+ * Infer variable type from PHP code context. Assignments are followed through branches, ternaries,
+ * null coalescing and early returns, giving union and nullable types (?Post, Post|Video).
+ * When the code does not parse, the last assignment wins, except that an untyped reassignment
+ * built from the variable itself ($users = $users->filter(...)) keeps the type of the assignment before it.
  */
 const inferVariableType = (code: string, varName: string): PHPType => {
+  try {
+    const flowType = inferFlowVariableType(code, varName, createFlowResolvers(code));
+    if (flowType !== undefined) {
+      return flowType as PHPType;
+    }
+  } catch (error) {
+    // Fall back to the last assignment
+  }
+
+  const assignments = findAssignments(code, varName);
+
+  for (let i = assignments.length - 1; i >= 0; i--) {
+    const assignedType = inferAssignedType(assignments[i], varName, code);
+    const isSelfReference = new RegExp(`=[\\s\\S]*\\$${varName}\\b`).test(assignments[i]);
+    if (assignedType !== 'mixed' || !isSelfReference) {
+      return assignedType;
+    }
+  }
+
+  return 'mixed';
+};
+
+/**
+ * Type what the flow analysis of code does not follow itself: literals and Eloquent calls by pattern,
+ * class names through the use statements of code and method calls by their declared return types
+ */
+const createFlowResolvers = (code: string): FlowTypeResolvers => ({
+  inferValueType: expression => inferAssignedType(`$value = ${expression};`, 'value', code),
+  resolveTypeHint: typeHint => resolveTypeHint(typeHint, code),
+  resolveMethodType: (className, methodName) => resolveMethodReturnType(className, methodName, code)
+});
+
+/**
+ * Convert a declared or PHPDoc type to our notation, resolving class names through the use statements
+ * of code. Form requests are typed as Request.
+ */
+const resolveTypeHint = (typeHint: string, code: string): PHPType => {
+  const selfClassName = code.match(CLASS_PATTERNS.className)?.[1];
+
+  return joinUnionTypes(splitUnionType(typeHint).map(type => {
+    // Scalars, generics (Collection<int, Post>) and arrays
+    if (!/^\\?[A-Z][\w\\]*$/.test(type)) {
+      return normalizeDocType(type, selfClassName);
+    }
+    // Aliased imports (use App\Models\Post as Article) are typed by their real name
+    return isSubclassOf(type, code, ['Request', 'FormRequest']) ? 'Request' : normalizeDocType(resolveClassName(type, code));
+  }));
+};
+
+/**
+ * Find the assignment statements of a variable ($name = ...;), in source order
+ */
+const findAssignments = (code: string, varName: string): string[] => {
+  const assignmentPattern = new RegExp(`\\$${varName}\\s*=(?![=>])`, 'g');
+  return [...code.matchAll(assignmentPattern)].map(match => {
+    const start = match.index ?? 0;
+    return code.slice(start, findStatementEnd(code, start) + 1);
+  });
+};
+
+/**
+ * Infer the type a single assignment statement gives a variable. Class names are resolved against
+ * the use statements of phpCode.
+ */
+const inferAssignedType = (code: string, varName: string, phpCode = code): PHPType => {
   // Look for enum assignments first (PHP 8.1+ and traditional patterns)
-  const enumType = inferEnumType(code, varName);
+  const enumType = inferEnumType(code, varName, phpCode);
   if (enumType) {
     return enumType;
   }
 
+  // Service container: app(ReportService::class), resolve(...), App::make(...)
+  const assignedValue = code.match(new RegExp(`\\$${varName}\\s*=(?![=>])([\\s\\S]*)$`))?.[1];
+  const containerClass = assignedValue ? findContainerCallClass(assignedValue, phpCode) : undefined;
+  if (containerClass) {
+    return normalizeDocType(containerClass);
+  }
+
   // Look for complex Eloquent query patterns first
   const eloquentQueryPattern = new RegExp(
     `\\$${varName}\\s*=\\s*([A-Z][a-zA-Z0-9_]+)::query\\(\\)[\\s\\S]*?->get\\(\\);?`,
@@ -195,8 +428,8 @@ const inferVariableType = (code: string, varName: string): PHPType => {
 
   // Look for variable assignment patterns
   const patterns = [
-    // Model::find(), Model::where(), etc. (single model)
-    new RegExp(`\\$${varName}\\s*=\\s*([A-Z][a-zA-Z0-9_]+)::(find|first|create|make)\\s*\\(`, 'g'),
+    // Model::find(), Model::findOrFail(), etc. (single model)
+    new RegExp(`\\$${varName}\\s*=\\s*([A-Z][a-zA-Z0-9_]+)::(find|first|firstWhere|findOrFail|firstOrFail|firstOrCreate|firstOrNew|updateOrCreate|create|make)\\s*\\(`, 'g'),
     // Model::get(), Model::all() (collection)
     new RegExp(`\\$${varName}\\s*=\\s*([A-Z][a-zA-Z0-9_]+)::(get|all|where)[\\s\\S]*?->get\\(\\)`, 'g'),
     // Direct Model::where()->get() pattern
@@ -215,16 +448,17 @@ const inferVariableType = (code: string, varName: string): PHPType => {
     new RegExp(`\\$${varName}\\s*=\\s*\\d+`, 'g'),
     // Boolean
     new RegExp(`\\$${varName}\\s*=\\s*(true|false)`, 'g'),
-    // Request
-    new RegExp(`\\$${varName}\\s*=\\s*\\$request`, 'g'),
+    // Request itself, not a value read from it: $request->input('q')
+    new RegExp(`\\$${varName}\\s*=\\s*\\$request\\b(?!\\s*(?:\\??->|\\[|::))`, 'g'),
   ];
 
   // Check for single model patterns (find, first, etc.)
   const singleModelMatch = code.match(patterns[0]);
   if (singleModelMatch) {
-    const modelName = singleModelMatch[0].match(/([A-Z][a-zA-Z0-9_]+)::/)?.[1];
+    const [, modelName, method] = singleModelMatch[0].match(/([A-Z][a-zA-Z0-9_]+)::(\w+)/) || [];
     if (modelName) {
-      return modelName;
+      // find() and first() return null when nothing matches
+      return ['find', 'first', 'firstWhere'].includes(method) ? `?${modelName}` : modelName;
     }
   }
 
@@ -285,9 +519,9 @@ const inferVariableType = (code: string, varName: string): PHPType => {
 };
 
 /**
- * Infer enum type from PHP code context
+ * Infer enum type from PHP code context. Class names are resolved against the use statements of phpCode.
  */
-const inferEnumType = (code: string, varName: string): PHPType | null => {
+const inferEnumType = (code: string, varName: string, phpCode = code): PHPType | null => {
   // Check PHP 8.1+ enum assignments using imported patterns
   const php81EnumPattern = new RegExp(
     ENUM_PATTERNS.php81Enum.source.replace(/\\(\\w\\+\\)/, varName),
@@ -297,7 +531,7 @@ const inferEnumType = (code: string, varName: string): PHPType | null => {
   const php81Match = code.match(php81EnumPattern);
   if (php81Match) {
     const enumName = php81Match[0].match(/([A-Z][a-zA-Z0-9_]+)::/)?.[1];
-    if (enumName && isValidEnumClass(enumName)) {
+    if (enumName && isValidEnumClass(enumName, phpCode)) {
       return enumName;
     }
   }
@@ -311,7 +545,7 @@ const inferEnumType = (code: string, varName: string): PHPType | null => {
   const traditionalMatch = code.match(traditionalEnumPattern);
   if (traditionalMatch) {
     const className = traditionalMatch[0].match(/([A-Z][a-zA-Z0-9_]+)::/)?.[1];
-    if (className && isTraditionalEnumClass(className)) {
+    if (className && isTraditionalEnumClass(className, phpCode)) {
       return className;
     }
   }
@@ -325,7 +559,7 @@ const inferEnumType = (code: string, varName: string): PHPType | null => {
   const enumMethodMatch = code.match(enumMethodPattern);
   if (enumMethodMatch) {
     const enumName = enumMethodMatch[0].match(/([A-Z][a-zA-Z0-9_]+)::/)?.[1];
-    if (enumName && isValidEnumClass(enumName)) {
+    if (enumName && isValidEnumClass(enumName, phpCode)) {
       return enumName;
     }
   }
@@ -334,33 +568,13 @@ const inferEnumType = (code: string, varName: string): PHPType | null => {
 };
 
 /**
- * Check if a class name represents a valid PHP 8.1+ enum
+ * Check if a class name represents a valid PHP 8.1+ enum. The name is resolved against the use statements of phpCode.
  */
-export const isValidEnumClass = (className: string): boolean => {
+export const isValidEnumClass = (className: string, phpCode = ''): boolean => {
   try {
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath;
-    if (!workspaceRoot) {
-      return false;
-    }
-
-    // Common enum paths in Laravel
-    const enumPaths = [
-      `${workspaceRoot}/app/Enums/${className}.php`,
-      `${workspaceRoot}/app/Models/Enums/${className}.php`,
-      `${workspaceRoot}/app/${className}.php`
-    ];
-
-    for (const enumPath of enumPaths) {
-      if (fs.existsSync(enumPath)) {
-        const enumContent = fs.readFileSync(enumPath, 'utf-8');
-        // Check if file contains enum declaration
-        if (CLASS_PATTERNS.enumDeclaration.test(enumContent)) {
-          return true;
-        }
-      }
-    }
-
-    return false;
+    const enumPath = resolveClassFilePath(className, phpCode);
+    // Check if file contains enum declaration
+    return !!enumPath && CLASS_PATTERNS.enumDeclaration.test(fs.readFileSync(enumPath, 'utf-8'));
   } catch (error) {
     return false;
   }
@@ -369,33 +583,16 @@ export const isValidEnumClass = (className: string): boolean => {
 /**
  * Check if a class name represents a traditional enum (class with constants)
  */
-export const isTraditionalEnumClass = (className: string): boolean => {
+export const isTraditionalEnumClass = (className: string, phpCode = ''): boolean => {
   try {
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath;
-    if (!workspaceRoot) {
+    const classPath = resolveClassFilePath(className, phpCode);
+    if (!classPath) {
       return false;
     }
 
-    // Common class paths in Laravel
-    const classPaths = [
-      `${workspaceRoot}/app/Enums/${className}.php`,
-      `${workspaceRoot}/app/Models/Enums/${className}.php`,
-      `${workspaceRoot}/app/${className}.php`,
-      `${workspaceRoot}/app/Models/${className}.php`
-    ];
-
-    for (const classPath of classPaths) {
-      if (fs.existsSync(classPath)) {
-        const classContent = fs.readFileSync(classPath, 'utf-8');
-        // Check if file contains multiple constants (suggesting enum-like usage)
-        const constantMatches = classContent.match(CLASS_PATTERNS.constant);
-        if (constantMatches && constantMatches.length >= 2) {
-          return true;
-        }
-      }
-    }
-
-    return false;
+    // Check if file contains multiple constants (suggesting enum-like usage)
+    const constantMatches = fs.readFileSync(classPath, 'utf-8').match(CLASS_PATTERNS.constant);
+    return !!constantMatches && constantMatches.length >= 2;
   } catch (error) {
     return false;
   }
@@ -404,30 +601,14 @@ export const isTraditionalEnumClass = (className: string): boolean => {
 /**
  * Parse enum properties from PHP 8.1+ enum or traditional enum class
  */
-export const parseEnumProperties = (enumName: string): Record<string, string> => {
+export const parseEnumProperties = (enumName: string, phpCode = ''): Record<string, string> => {
   try {
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath;
-    if (!workspaceRoot) {
+    const enumPath = resolveClassFilePath(enumName, phpCode);
+    if (!enumPath) {
       return {};
     }
 
-    const enumPaths = [
-      `${workspaceRoot}/app/Enums/${enumName}.php`,
-      `${workspaceRoot}/app/Models/Enums/${enumName}.php`,
-      `${workspaceRoot}/app/${enumName}.php`
-    ];
-
-    let enumContent = '';
-    for (const enumPath of enumPaths) {
-      if (fs.existsSync(enumPath)) {
-        enumContent = fs.readFileSync(enumPath, 'utf-8');
-        break;
-      }
-    }
-
-    if (!enumContent) {
-      return {};
-    }
+    const enumContent = fs.readFileSync(enumPath, 'utf-8');
 
     const properties: Record<string, string> = {};
 
@@ -638,133 +819,170 @@ const parseRelationMethods = (modelContent: string): Record<string, string> => {
 };
 
 /**
- * Parse Model file to extract properties
+ * Parse Model file to extract properties. The name is resolved against the use statements of phpCode,
+ * so that same-named models of different namespaces stay apart.
+ */
+export const parseModelProperties = (modelName: string, phpCode = ''): Record<string, string> => {
+  return parseModel(modelName, phpCode)?.properties ?? {};
+};
+
+/**
+ * Get what hover tells about the members of a model besides their type: accessors, $hidden and $appends
+ */
+export const parseModelMemberNotes = (modelName: string, phpCode = ''): Record<string, ModelMemberNotes> => {
+  return parseModel(modelName, phpCode)?.notes ?? {};
+};
+
+/**
+ * Parse the attributes, relations and methods of a model with their types and notes
  */
-export const parseModelProperties = (modelName: string): Record<string, string> => {
+const parseModel = (
+  modelName: string,
+  phpCode: string
+): { properties: Record<string, string>; notes: Record<string, ModelMemberNotes> } | undefined => {
   try {
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath;
-    if (!workspaceRoot) {
-      return {};
+    const modelPath = resolveClassFilePath(modelName, phpCode);
+    if (!modelPath) {
+      return undefined;
     }
 
-    // Common model paths in Laravel
-    const modelPaths = [
-      `${workspaceRoot}/app/Models/${modelName}.php`,
-      `${workspaceRoot}/app/${modelName}.php`
-    ];
+    // Services and other plain classes are left to parseClassProperties; the short name resolves in the model's own namespace
+    const shortName = modelName.split('\\').pop() || modelName;
+    const modelContent = fs.readFileSync(modelPath, 'utf-8');
+    if (!isSubclassOf(shortName, modelContent, MODEL_BASE_CLASSES)) {
+      return undefined;
+    }
 
-    let modelContent = '';
-    for (const modelPath of modelPaths) {
-      if (fs.existsSync(modelPath)) {
-        modelContent = fs.readFileSync(modelPath, 'utf-8');
-        break;
+    // The model, its traits and parent classes, most derived first
+    const sources = collectModelSources(shortName, modelContent);
+
+    // Columns from the migrations of the model's table ($table, or the plural snake case name)
+    const tableProperty = findNearestPropertyDefault(sources, 'table')?.value;
+    const tableColumns = findTableColumns(typeof tableProperty === 'string' ? tableProperty : getConventionalTableName(modelName));
+    const properties: Record<string, string> = { ...tableColumns };
+
+    // Members are recorded with the class or trait declaring them, which hover shows
+    const notes: Record<string, ModelMemberNotes> = {};
+    const declare = (name: string, type: string, source?: ModelSource) => {
+      properties[name] = type;
+      if (source) {
+        notes[name] = { ...notes[name], declaredIn: source.name };
+      }
+    };
+
+    // Attributes framework traits add in their initialize methods, e.g. the deleted_at cast of SoftDeletes
+    const traitAttributes: Record<string, string> = {};
+    for (const source of sources) {
+      for (const traitName of findUsedTraits(source.node)) {
+        const attributes = TRAIT_ATTRIBUTES[traitName.split('\\').pop() || traitName] ?? {};
+        Object.assign(traitAttributes, attributes);
+        for (const [attributeName, attributeType] of Object.entries(attributes)) {
+          declare(attributeName, attributeType, { ...source, name: traitName.split('\\').pop() || traitName });
+        }
       }
     }
 
-    if (!modelContent) {
-      return {};
+    // Parse $fillable array
+    const fillable = findNearestPropertyDefault(sources, 'fillable');
+    for (const [, fieldName] of getAstArrayEntries(fillable?.value)) {
+      if (typeof fieldName === 'string' && !(fieldName in properties)) {
+        declare(fieldName, 'string', fillable?.source); // Default to string
+      }
     }
 
-    const properties: Record<string, string> = {};
+    // $casts, and the casts() method of Laravel 11 models, which wins over the property
+    const castsProperty = findNearestPropertyDefault(sources, 'casts');
+    const castsMethodSource = sources.find(source => findCastsMethodArrays(source.node).length > 0);
+    const castEntries = [
+      ...getAstArrayEntries(castsProperty?.value).map(entry => [...entry, castsProperty?.source] as const),
+      ...(castsMethodSource ? findCastsMethodArrays(castsMethodSource.node) : [])
+        .flatMap(castsArray => getAstArrayEntries(castsArray))
+        .map(entry => [...entry, castsMethodSource] as const)
+    ];
+    for (const [fieldName, castValue, source] of castEntries) {
+      const castType = inferCastType(castValue, source?.code ?? modelContent);
+      if (typeof fieldName !== 'string' || !castType) {
+        continue;
+      }
+      declare(fieldName, castType, source);
 
-    // Parse $fillable array using imported pattern
-    const fillableMatch = modelContent.match(CLASS_PATTERNS.fillableArray);
-    if (fillableMatch) {
-      const fillableContent = fillableMatch[1];
-      const fillableItems = fillableContent.match(/'([^']+)'/g) || [];
-      fillableItems.forEach(item => {
-        const fieldName = item.replace(/'/g, '');
-        properties[fieldName] = 'string'; // Default to string
-      });
-    }
-
-    // Parse $casts array for more specific types using imported pattern
-    const castsMatch = modelContent.match(CLASS_PATTERNS.castsArray);
-    if (castsMatch) {
-      const castsContent = castsMatch[1];
-      const castLines = castsContent.split(',');
-      
-      for (const line of castLines) {
-        const castMatch = line.match(/'([^']+)'\s*=>\s*'([^']+)'/);
-        if (castMatch) {
-          const [, fieldName, castType] = castMatch;
-          
-          // Map Laravel cast types to our types
-          switch (castType) {
-            case 'datetime':
-            case 'date':
-            case 'timestamp':
-              properties[fieldName] = 'Carbon';
-              break;
-            case 'integer':
-            case 'int':
-              properties[fieldName] = 'int';
-              break;
-            case 'boolean':
-            case 'bool':
-              properties[fieldName] = 'bool';
-              break;
-            case 'float':
-            case 'double':
-            case 'decimal':
-              properties[fieldName] = 'float';
-              break;
-            case 'array':
-            case 'json':
-              properties[fieldName] = 'array';
-              break;
-            default:
-              // Check if cast type is a custom enum class
-              if (/^[A-Z][a-zA-Z0-9_\\]*$/.test(castType)) {
-                const enumClassName = castType.split('\\').pop() || castType;
-                if (isValidEnumClass(enumClassName) || isTraditionalEnumClass(enumClassName)) {
-                  properties[fieldName] = enumClassName;
-                  break;
-                }
-              }
-              properties[fieldName] = 'string';
-          }
-        }
+      // A cast keeps the nullability of its column
+      if (tableColumns[fieldName]?.startsWith('?') && !properties[fieldName].startsWith('?')) {
+        properties[fieldName] = `?${properties[fieldName]}`;
       }
     }
 
-    // Parse $dates array using imported pattern
-    const datesMatch = modelContent.match(CLASS_PATTERNS.datesArray);
-    if (datesMatch) {
-      const datesContent = datesMatch[1];
-      const dateItems = datesContent.match(/'([^']+)'/g) || [];
-      dateItems.forEach(item => {
-        const fieldName = item.replace(/'/g, '');
-        properties[fieldName] = 'Carbon';
-      });
+    // Parse $dates array
+    const dates = findNearestPropertyDefault(sources, 'dates');
+    for (const [, fieldName] of getAstArrayEntries(dates?.value)) {
+      if (typeof fieldName === 'string') {
+        declare(fieldName, 'Carbon', dates?.source);
+      }
     }
 
-    // Parse PHPDoc @property annotations using imported pattern
-    const phpDocMatches = modelContent.matchAll(CLASS_PATTERNS.phpDocProperty);
-    for (const match of phpDocMatches) {
-      const [, phpDocType, fieldName] = match;
-      
-      // Map PHPDoc types to our types
-      let mappedType = 'string';
-      if (phpDocType.includes('int') || phpDocType.includes('integer')) {
-        mappedType = 'int';
-      } else if (phpDocType.includes('bool') || phpDocType.includes('boolean')) {
-        mappedType = 'bool';
-      } else if (phpDocType.includes('float') || phpDocType.includes('double')) {
-        mappedType = 'float';
-      } else if (phpDocType.includes('array') || phpDocType.includes('[]')) {
-        mappedType = 'array';
-      } else if (phpDocType.includes('Carbon') || phpDocType.includes('DateTime')) {
-        mappedType = 'Carbon';
+    // Members declared in code: a parent is overridden by its traits, which are overridden by the class
+    for (const source of [...sources].reverse()) {
+      // Parse PHPDoc @property annotations using imported pattern
+      const phpDocMatches = source.code.matchAll(CLASS_PATTERNS.phpDocProperty);
+      for (const match of phpDocMatches) {
+        const [, phpDocType, fieldName] = match;
+
+        // Map PHPDoc types to our types
+        let mappedType = 'string';
+        if (phpDocType.includes('int') || phpDocType.includes('integer')) {
+          mappedType = 'int';
+        } else if (phpDocType.includes('bool') || phpDocType.includes('boolean')) {
+          mappedType = 'bool';
+        } else if (phpDocType.includes('float') || phpDocType.includes('double')) {
+          mappedType = 'float';
+        } else if (phpDocType.includes('array') || phpDocType.includes('[]')) {
+          mappedType = 'array';
+        } else if (phpDocType.includes('Carbon') || phpDocType.includes('DateTime')) {
+          mappedType = 'Carbon';
+        }
+
+        declare(fieldName, mappedType, source);
+      }
+
+      // Accessors and mutators: getFullNameAttribute() or fullName(): Attribute define full_name
+      const accessors = parseAccessorAttributes(source.node, source.code, source.name);
+      for (const [attributeName, accessor] of Object.entries(accessors)) {
+        declare(attributeName, accessor.type ?? properties[attributeName] ?? 'mixed', source);
+        notes[attributeName].accessor = accessor.method;
+      }
+
+      // Parse relation methods
+      const relationMethods = parseRelationMethods(source.code);
+      for (const [relationName, relationType] of Object.entries(relationMethods)) {
+        declare(relationName, relationType, source);
+      }
+
+      // Other public methods, e.g. trashed() of SoftDeletes or notify() of Notifiable
+      for (const methodName of findPublicModelMethods(source.node)) {
+        if (methodName in relationMethods || Object.values(accessors).some(accessor => accessor.method === `${methodName}()`)) {
+          continue;
+        }
+        declare(methodName, resolveMethodReturnType(source.name, methodName, source.code, shortName) ?? 'mixed', source);
+        notes[methodName].isMethod = true;
       }
-      
-      properties[fieldName] = mappedType;
     }
 
-    // Parse relation methods
-    const relationMethods = parseRelationMethods(modelContent);
-    for (const [relationName, relationType] of Object.entries(relationMethods)) {
-      properties[relationName] = relationType;
+    // $appends adds attributes to toArray()/toJson(); $hidden and $visible leave some out
+    const readNames = (propertyName: string) => getAstArrayEntries(findNearestPropertyDefault(sources, propertyName)?.value)
+      .map(([, value]) => value)
+      .filter((value): value is string => typeof value === 'string');
+    const appends = readNames('appends');
+    const hidden = readNames('hidden');
+    const visible = readNames('visible');
+
+    for (const attributeName of appends) {
+      properties[attributeName] ??= 'mixed';
+    }
+    for (const name of Object.keys(properties)) {
+      const isHidden = !notes[name]?.isMethod && (hidden.includes(name) || (visible.length > 0 && !visible.includes(name)));
+      if (isHidden || appends.includes(name)) {
+        notes[name] = { ...notes[name], hidden: isHidden || undefined, appended: appends.includes(name) || undefined };
+      }
     }
 
     // Add standard Eloquent properties 
@@ -791,32 +1009,310 @@ export const parseModelProperties = (modelName: string): Record<string, string>
       'with': modelName
     };
 
-    return { ...properties, ...baseProperties };
+    // Columns the migrations declare and attributes of traits keep their own type, e.g. nullable timestamps
+    const baseMembers = Object.entries(baseProperties).filter(([name]) => !(name in tableColumns) && !(name in traitAttributes));
+    return { properties: { ...properties, ...Object.fromEntries(baseMembers) }, notes };
     
   } catch (error) {
     console.error(`Error parsing model ${modelName}:`, error);
-    return {};
+    return undefined;
+  }
+};
+
+/**
+ * Collect the classes that make up a model, most derived first: the class, the traits it uses (and theirs),
+ * then its parent class in turn, up to the Eloquent base model. Workspace and vendor classes are both read.
+ */
+const collectModelSources = (className: string, phpCode: string, depth = 0): ModelSource[] => {
+  const shortName = className.split('\\').pop() || className;
+  const classPath = depth <= MAX_MODEL_HIERARCHY_DEPTH && resolveClassName(className, phpCode) !== ELOQUENT_MODEL_CLASS
+    ? resolveClassFilePath(className, phpCode)
+    : null;
+  if (!classPath) {
+    return [];
+  }
+
+  const code = fs.readFileSync(classPath, 'utf-8');
+  const node = findClassNode(code, shortName);
+  if (!node) {
+    return [];
+  }
+
+  const parentName = getAstName(getAstChild(node, 'extends'));
+  return [
+    { name: shortName, code, node },
+    ...findUsedTraits(node).flatMap(traitName => collectModelSources(traitName, code, depth + 1)),
+    ...(parentName ? collectModelSources(parentName, code, depth + 1) : [])
+  ];
+};
+
+/**
+ * Find the nearest default of a class property among a model's classes, e.g. $casts declared by a BaseModel
+ */
+const findNearestPropertyDefault = (
+  sources: ModelSource[],
+  propertyName: string
+): { value: PhpAstValue; source: ModelSource } | undefined => {
+  for (const source of sources) {
+    const value = findPropertyDefault(source.node, propertyName);
+    if (value !== undefined) {
+      return { value, source };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * List the public instance methods of a class or trait that Blade may call on a model, leaving out
+ * scopes, accessors and mutators, boot and initialize hooks, casts() and magic methods
+ */
+const findPublicModelMethods = (classNode: PhpAstNode): string[] => {
+  return findClassMethods(classNode)
+    .filter(method => !method.node.flags.includes('MODIFIER_STATIC'))
+    .filter(method => !method.node.flags.some(flag => ['MODIFIER_PROTECTED', 'MODIFIER_PRIVATE'].includes(flag)))
+    .map(method => method.name)
+    .filter(name => !/^(?:__|scope[A-Z]|boot|initialize[A-Z]|[gs]et\w+Attribute$|casts$)/.test(name));
+};
+
+/**
+ * Get the arrays the casts() method returns: return [...], or return array_merge(parent::casts(), [...])
+ */
+const findCastsMethodArrays = (modelAst: PhpAstNode): PhpAstNode[] => {
+  const castsMethod = findClassMethods(modelAst).find(method => method.name === 'casts');
+  const arrays: PhpAstNode[] = [];
+
+  walkAst(castsMethod?.node, (node) => {
+    const returned = node.kind === 'AST_RETURN' ? getAstChild(node, 'expr') : undefined;
+    if (isAstNode(returned, 'AST_ARRAY')) {
+      arrays.push(returned);
+    } else if (isAstNode(returned, 'AST_CALL') && getAstName(getAstChild(returned, 'expr'))?.toLowerCase() === 'array_merge') {
+      arrays.push(...getAstCallArguments(returned).filter((arg): arg is PhpAstNode => isAstNode(arg, 'AST_ARRAY')));
+    }
+  });
+
+  return arrays;
+};
+
+/**
+ * Map a cast to the type of the attribute: 'datetime:Y-m-d', 'encrypted:array', Status::class,
+ * AsEnumCollection::of(Status::class), or a custom cast class typed by the return type of its get() method.
+ * Class names are resolved against the use statements of the model.
+ */
+const inferCastType = (castValue: PhpAstValue, modelContent: string): string | undefined => {
+  let castClass: string | undefined;
+  let castArgument: string | undefined;
+
+  if (typeof castValue === 'string') {
+    // Built-in casts, with their parameters: 'decimal:2', 'datetime:Y-m-d', 'encrypted:array'
+    const builtInType = CAST_TYPES[castValue.toLowerCase()] ?? CAST_TYPES[castValue.split(':')[0].toLowerCase()];
+    if (builtInType) {
+      return builtInType;
+    }
+    // 'App\Casts\Money:USD' names the cast class, always fully qualified, with its arguments
+    if (!/^\\?[A-Z][\w\\]*(?::|$)/.test(castValue)) {
+      return 'string';
+    }
+    castClass = '\\' + castValue.split(':')[0].replace(/^\\/, '');
+  } else if (isAstNode(castValue, 'AST_CLASS_NAME')) {
+    castClass = getAstName(getAstChild(castValue, 'class'));
+  } else if (isAstNode(castValue, 'AST_BINARY_OP')) {
+    // MoneyCast::class.':USD'
+    const left = getAstChild(castValue, 'left');
+    castClass = isAstNode(left, 'AST_CLASS_NAME') ? getAstName(getAstChild(left, 'class')) : undefined;
+  } else if (isAstNode(castValue, 'AST_STATIC_CALL')) {
+    // AsEnumCollection::of(Status::class), AsCollection::using(OptionCollection::class)
+    const [argument] = getAstCallArguments(castValue);
+    castClass = getAstName(getAstChild(castValue, 'class'));
+    castArgument = isAstNode(argument, 'AST_CLASS_NAME') ? getAstName(getAstChild(argument, 'class')) : undefined;
+    if (castArgument && getAstName(getAstChild(castValue, 'method')) === 'using') {
+      return normalizeDocType(castArgument);
+    }
+  }
+
+  if (!castClass) {
+    return undefined;
+  }
+
+  const shortName = castClass.split('\\').pop() || castClass;
+  switch (shortName) {
+    case 'AsCollection':
+    case 'AsEncryptedCollection':
+    case 'AsEnumCollection':
+      return castArgument ? `Collection<${normalizeDocType(castArgument)}>` : 'Collection';
+    case 'AsArrayObject':
+    case 'AsEncryptedArrayObject':
+    case 'AsEnumArrayObject':
+      return 'ArrayObject';
+    case 'AsStringable':
+      return 'Stringable';
+  }
+
+  if (isValidEnumClass(castClass, modelContent) || isTraditionalEnumClass(castClass, modelContent)) {
+    return shortName;
+  }
+
+  // Value objects implementing Castable cast to themselves; CastsAttributes classes to what get() returns.
+  // Classes outside the workspace keep the string default.
+  if (!resolveClassFilePath(castClass, modelContent)) {
+    return 'string';
+  }
+  if (findMethodDeclaration(castClass, 'castUsing', modelContent)) {
+    return shortName;
+  }
+  return resolveMethodReturnType(castClass, 'get', modelContent) ?? 'mixed';
+};
+
+/**
+ * Find the attributes a model defines through accessors and mutators, with the getter's return type:
+ * getFullNameAttribute(): string, or fullName(): Attribute returning Attribute::make(get: fn (): string => ...).
+ * Mutator-only attributes have no type of their own.
+ */
+const parseAccessorAttributes = (
+  modelAst: PhpAstNode,
+  modelContent: string,
+  modelName: string
+): Record<string, { method: string; type?: string }> => {
+  const attributes: Record<string, { method: string; type?: string }> = {};
+
+  for (const { name: methodName, node: methodNode } of findClassMethods(modelAst)) {
+    const legacyMatch = methodName.match(/^([gs]et)(\w+)Attribute$/);
+    const returnType = printAstType(getAstChild(methodNode, 'returnType'));
+
+    if (legacyMatch) {
+      const attributeName = toSnakeCase(legacyMatch[2]);
+      // A getter wins over the mutator of the same attribute
+      if (legacyMatch[1] === 'get') {
+        attributes[attributeName] = {
+          method: `${methodName}()`,
+          type: resolveMethodReturnType(modelName.split('\\').pop() || modelName, methodName, modelContent)
+        };
+      } else {
+        attributes[attributeName] ??= { method: `${methodName}()` };
+      }
+    } else if (returnType?.split('\\').pop() === 'Attribute') {
+      attributes[toSnakeCase(methodName)] = { method: `${methodName}()`, type: findAttributeGetterType(methodNode) };
+    }
+  }
+
+  return attributes;
+};
+
+/**
+ * Get the type of an Attribute accessor's getter: the return type of the get closure, or the first type of
+ * an `@return Attribute<string, never>` tag
+ */
+const findAttributeGetterType = (methodNode: PhpAstNode): string | undefined => {
+  let getter: PhpAstValue | undefined;
+
+  walkAst(methodNode, (node) => {
+    if (getter) {
+      return;
+    }
+
+    // Attribute::make(get: fn () => ...), new Attribute(fn () => ...) or Attribute::get(fn () => ...)
+    const isAttributeCall = (node.kind === 'AST_STATIC_CALL' && ['make', 'get'].includes(getAstName(getAstChild(node, 'method')) || ''))
+      || node.kind === 'AST_NEW';
+    const className = getAstName(getAstChild(node, 'class'));
+    if (!isAttributeCall || className?.split('\\').pop() !== 'Attribute') {
+      return;
+    }
+
+    const args = getAstCallArguments(node);
+    const namedGetter = args.find(arg => isAstNode(arg, 'AST_NAMED_ARG') && getAstChild(arg, 'name') === 'get');
+    getter = isAstNode(namedGetter) ? getAstChild(namedGetter, 'expr') : args.find(arg => !isAstNode(arg, 'AST_NAMED_ARG'));
+  });
+
+  const closureType = isAstNode(getter) ? printAstType(getAstChild(getter, 'returnType')) : undefined;
+  if (closureType) {
+    return normalizeDocType(closureType);
+  }
+
+  const docComment = getAstChild(methodNode, 'docComment');
+  const docType = typeof docComment === 'string' ? findDocTagType(docComment, ['phpstan-return', 'psalm-return', 'return']) : undefined;
+  const getterDocType = docType?.match(/^\\?(?:[\w\\]+\\)?Attribute<\s*([^,>]+)/)?.[1];
+  return getterDocType ? normalizeDocType(getterDocType.trim()) : undefined;
+};
+
+/**
+ * Parse the public properties and methods of a plain class of the workspace, such as a service
+ * resolved from the container. Models are left to parseModelProperties.
+ */
+export const parseClassProperties = (className: string, phpCode = ''): Record<string, string> => {
+  const properties: Record<string, string> = {};
+
+  for (const member of parsePlainClassMembers(className, phpCode)) {
+    // Methods are typed like calls in controllers, the @return tag winning over the declared type
+    const returnType = member.isMethod ? resolveMethodReturnType(className, member.name, phpCode) : undefined;
+    properties[member.name] = returnType ?? inferMemberType(member, className);
+  }
+
+  return properties;
+};
+
+/**
+ * Get the public method names of a plain class of the workspace
+ */
+export const parseClassMethodNames = (className: string, phpCode = ''): string[] => {
+  return parsePlainClassMembers(className, phpCode).filter(member => member.isMethod).map(member => member.name);
+};
+
+/**
+ * Get the public members of a workspace class that is not a model
+ */
+const parsePlainClassMembers = (className: string, phpCode: string): PhpClassMember[] => {
+  try {
+    const classPath = resolveClassFilePath(className, phpCode);
+    if (!classPath) {
+      return [];
+    }
+
+    const classCode = fs.readFileSync(classPath, 'utf-8');
+    const shortName = className.split('\\').pop() || className;
+    return isSubclassOf(shortName, classCode, MODEL_BASE_CLASSES) ? [] : parsePublicMembers(classCode);
+  } catch (error) {
+    return [];
   }
 };
 
 /**
- * Get type properties for autocomplete
+ * Get type properties for autocomplete. For a union (Post|Video) only the members every alternative has are kept.
+ * Class names are resolved against the use statements of phpCode, the code the type was inferred from.
  */
-export const inferTypeProperties = (type: PHPType): Record<string, string> => {
+export const inferTypeProperties = (type: PHPType, phpCode = ''): Record<string, string> => {
   const properties: Record<string, string> = {};
 
+  const alternatives = type ? splitUnionType(type).filter(member => member !== 'null') : [];
+  if (alternatives.length === 1 && alternatives[0] !== type) {
+    return inferTypeProperties(alternatives[0], phpCode);
+  }
+  if (alternatives.length > 1) {
+    const alternativeProperties = alternatives.map(alternative => inferTypeProperties(alternative, phpCode));
+    for (const name of Object.keys(alternativeProperties[0])) {
+      if (alternativeProperties.every(members => name in members)) {
+        properties[name] = joinUnionTypes(alternativeProperties.map(members => members[name]));
+      }
+    }
+    return properties;
+  }
+
+  // Lists (Post[]) offer the array members, with the items they give typed
+  if (type?.endsWith('[]')) {
+    const itemType = joinUnionTypes([type.slice(0, -2), 'null']);
+    return { ...inferTypeProperties('array', phpCode), 'pop': itemType, 'shift': itemType };
+  }
+
   // First check if it's a class type
   if (type && type !== 'mixed' && /^[A-Z]/.test(type)) {
     // Check if it's actually an enum first
-    if (isValidEnumClass(type) || isTraditionalEnumClass(type)) {
-      const enumProperties = parseEnumProperties(type);
+    if (isValidEnumClass(type, phpCode) || isTraditionalEnumClass(type, phpCode)) {
+      const enumProperties = parseEnumProperties(type, phpCode);
       if (Object.keys(enumProperties).length > 0) {
         return enumProperties;
       }
     }
     
     // If not an enum, try parsing as a custom model
-    const modelProperties = parseModelProperties(type);
+    const modelProperties = parseModelProperties(type, phpCode);
     if (Object.keys(modelProperties).length > 0) {
       return modelProperties;
     }
@@ -844,6 +1340,7 @@ export const inferTypeProperties = (type: PHPType): Record<string, string> => {
         'unique': 'Collection'
       };
 
+    case 'CarbonImmutable':
     case 'Carbon':
       return {
         'format': 'string',
@@ -924,6 +1421,36 @@ export const inferTypeProperties = (type: PHPType): Record<string, string> => {
         'sort': 'bool'
       };
 
+    case 'ComponentAttributeBag':
+      return {
+        'merge': 'ComponentAttributeBag',
+        'class': 'ComponentAttributeBag',
+        'style': 'ComponentAttributeBag',
+        'get': 'mixed',
+        'has': 'bool',
+        'hasAny': 'bool',
+        'only': 'ComponentAttributeBag',
+        'except': 'ComponentAttributeBag',
+        'filter': 'ComponentAttributeBag',
+        'whereStartsWith': 'ComponentAttributeBag',
+        'whereDoesntStartWith': 'ComponentAttributeBag',
+        'first': 'mixed',
+        'prepends': 'mixed',
+        'isEmpty': 'bool',
+        'isNotEmpty': 'bool',
+        'getAttributes': 'array',
+        'toHtml': 'string'
+      };
+
+    case 'ComponentSlot':
+      return {
+        'attributes': 'ComponentAttributeBag',
+        'isEmpty': 'bool',
+        'isNotEmpty': 'bool',
+        'hasActualContent': 'bool',
+        'toHtml': 'string'
+      };
+
     default:
       // For Collection<Model> types
       if (type && type.startsWith('Collection<') && type.endsWith('>')) {
@@ -959,10 +1486,18 @@ export const inferTypeProperties = (type: PHPType): Record<string, string> => {
         };
       }
       
-      // For custom model classes, provide common Eloquent methods
+      // Services and other plain classes offer their public API
       if (type && type !== 'mixed' && /^[A-Z]/.test(type)) {
-        return {
-          'id': 'int',
+        const classProperties = parseClassProperties(type, phpCode);
+        if (Object.keys(classProperties).length > 0) {
+          return classProperties;
+        }
+      }
+
+      // For custom model classes, provide common Eloquent methods
+      if (type && type !== 'mixed' && /^[A-Z]/.test(type)) {
+        return {
+          'id': 'int',
           'save': 'bool',
           'delete': 'bool',
           'update': 'bool',
@@ -995,10 +1530,74 @@ export const inferTypeProperties = (type: PHPType): Record<string, string> => {
 
 
 
+/**
+ * Resolve the final type by following a property chain
+ */
+export const resolvePropertyChainType = (
+  initialType: string,
+  propertyChain: string,
+  initialProperties?: Record<string, string>,
+  phpCode = ''
+): string => {
+  return resolvePropertyChain(initialType, propertyChain, initialProperties, phpCode).type;
+};
+
+/**
+ * Resolve the final type of a property chain together with the code its class names resolve against.
+ * Member types are written in the file of the class that declares them, so each step moves to that file.
+ */
+export const resolvePropertyChain = (
+  initialType: string,
+  propertyChain: string,
+  initialProperties?: Record<string, string>,
+  phpCode = ''
+): { type: string; phpCode: string } => {
+  let currentType = initialType;
+  let currentCode = phpCode;
+  
+  // Split the chain into individual property/method calls
+  // e.g. "->user->comments->first()" becomes ["user", "comments", "first()"]
+  const chainParts = propertyChain.split('->').filter(part => part.trim());
+  
+  for (const [index, part] of chainParts.entries()) {
+    const isMethod = part.endsWith('()');
+    const propertyName = isMethod ? part.slice(0, -2) : part;
+    
+    // Get properties for the current type (the variable may carry its own, e.g. Livewire's $this)
+    const typeProperties = index === 0 && initialProperties ? initialProperties : inferTypeProperties(currentType, currentCode);
+    
+    if (typeProperties && typeProperties[propertyName]) {
+      currentCode = getTypeClassCode(currentType, currentCode);
+      currentType = typeProperties[propertyName];
+    } else {
+      // If we can't resolve the type, return mixed
+      return { type: 'mixed', phpCode: currentCode };
+    }
+  }
+  
+  return { type: currentType, phpCode: currentCode };
+};
+
+/**
+ * Get the code the class names in a variable's type resolve against: the use statements written for it,
+ * or else the file it is defined in
+ */
+export const getVariableTypeContext = (varInfo: Pick<BladeVarInfo, 'typeContext' | 'definedInPath'>): string => {
+  if (varInfo.typeContext !== undefined) {
+    return varInfo.typeContext;
+  }
+
+  try {
+    return varInfo.definedInPath ? fs.readFileSync(varInfo.definedInPath, 'utf-8') : '';
+  } catch (error) {
+    return '';
+  }
+};
+
 /**
  * Replace dots with slashes. Convert to Laravel's standard view path (relative path from resources/views/) and add .blade.php at the end
  */
-const convertToBladeFilePath = (dotNotationPath?: string): string | undefined => {
+export const convertToBladeFilePath = (dotNotationPath?: string): string | undefined => {
   if (!dotNotationPath) { return; }
   const relativePath = dotNotationPath?.replace(/\./g, '/');
   const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri?.fsPath || process.cwd();
@@ -1006,6 +1605,21 @@ const convertToBladeFilePath = (dotNotationPath?: string): string | undefined =>
   return `${absoluteViewPath}/${relativePath}.blade.php`;
 };
 
+/**
+ * Check whether a variable's target view applies to a Blade file. Wildcard views ('*', 'partials.*') match any path.
+ */
+export const matchesBladeUri = (jumpTargetUri: string, bladeUri: string): boolean => {
+  if (!jumpTargetUri.includes('*')) {
+    return jumpTargetUri === bladeUri;
+  }
+
+  const pattern = jumpTargetUri
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}$`).test(bladeUri);
+};
+
 // PHP type information
 export type PHPType =
   | 'string'
@@ -1042,25 +1656,28 @@ export type BladeVarInfo = {
   jumpTargetUri: string;
   docComment?: string;
   definedInPath?: string;
+  definedInLine?: number;
   namespace?: string;
   type?: PHPType;
+  // Code whose use statements name the classes of type, when not the file at definedInPath
+  typeContext?: string;
   properties?: Record<string, string>;
+  methods?: string[];
+  isCallable?: boolean;
 }
 
 /**
  * Parse PHP code using PHP-WASM AST for more accurate parsing
  */
-export const parseWithPhpWasm = (phpCode: string, controllerPath: string, phpWasm: any): BladeVarInfo[] => {
+export const parseWithPhpWasm = async (phpCode: string, controllerPath: string, phpWasm: any): Promise<BladeVarInfo[]> => {
   try {
-    const bladeVarInfo: BladeVarInfo[] = [];
-    
     // Create a valid PHP file wrapper
     const wrappedCode = createPHPWrapper(phpCode);
 
     // Parse PHP code to AST using template
     const astScript = createASTParsingScript(wrappedCode);
 
-    const result = phpWasm.run(astScript);
+    const result = await phpWasm.run(astScript);
     
     if (!result || !result.text) {
       throw new Error('No AST result from PHP-WASM');
@@ -1073,7 +1690,7 @@ export const parseWithPhpWasm = (phpCode: string, controllerPath: string, phpWas
       // Try alternative AST parsing method using token_get_all
       const tokenScript = createTokenParsingScript(wrappedCode);
 
-      const tokenResult = phpWasm.run(tokenScript);
+      const tokenResult = await phpWasm.run(tokenScript);
       if (!tokenResult || !tokenResult.text) {
         throw new Error('No token result from PHP-WASM');
       }
@@ -1091,7 +1708,7 @@ export const parseWithPhpWasm = (phpCode: string, controllerPath: string, phpWas
       throw new Error(`PHP AST error: ${astData.error}`);
     }
 
-    return parseViewCallsFromASTOrTokens(phpCode, controllerPath);
+    return parseViewCallsFromASTOrTokens(phpCode, controllerPath, astData);
 
   } catch (error) {
     console.error('PHP-WASM parsing error:', error);
@@ -1100,14 +1717,373 @@ export const parseWithPhpWasm = (phpCode: string, controllerPath: string, phpWas
 };
 
 /**
- * Parse view calls from AST or token data (both currently fall back to enhanced regex)
+ * Parse view calls from the PHP-WASM AST when available, otherwise from the built-in parser's AST;
+ * traversal errors fall back to enhanced regex
  */
-const parseViewCallsFromASTOrTokens = (phpCode: string, controllerPath: string): BladeVarInfo[] => {
-  // For now, both AST and token parsing fall back to enhanced regex parsing
-  // This can be enhanced in the future with actual AST traversal
+const parseViewCallsFromASTOrTokens = (phpCode: string, controllerPath: string, ast?: PhpAstValue): BladeVarInfo[] => {
+  try {
+    return parseViewCallsFromAst(isAstNode(ast) ? ast : parsePhp(phpCode), phpCode, controllerPath);
+  } catch (astError) {
+    console.warn(`AST traversal failed for ${controllerPath}, falling back to regex:`, astError);
+  }
+
   return parseViewCallsUsingEnhancedRegex(phpCode, controllerPath);
 };
 
+/**
+ * Walk each class method and collect the variables passed to the views it renders
+ */
+const parseViewCallsFromAst = (ast: PhpAstNode, phpCode: string, controllerPath: string): BladeVarInfo[] => {
+  const bladeVarInfo: BladeVarInfo[] = [];
+  const classNodes = new Map<string, PhpAstNode>();
+  walkAst(ast, (node) => {
+    if (node.kind === 'AST_CLASS') {
+      classNodes.set(getAstName(getAstChild(node, 'name')) || '', node);
+    }
+  });
+
+  for (const method of findClassMethods(ast)) {
+    const methodStart = getLineOffset(phpCode, method.startLine);
+    const classNode = classNodes.get(method.className);
+
+    walkAst(method.node, (node) => {
+      const firstIndex = bladeVarInfo.length;
+      // Only the assignments made in this method up to the call are visible to it
+      const getScopeCode = () => getMethodScopeCode(phpCode, getLineOffset(phpCode, node.lineno + 1), methodStart);
+
+      try {
+        // Render helpers such as $this->render('x', [...]) pass their arguments on to view()
+        const renderedView = getRenderedViewFromAst(node)
+          ?? (classNode ? getWrappedViewFromAst(node, phpCode, controllerPath, classNode) : null);
+        if (renderedView) {
+          const scopeCode = getScopeCode();
+          for (const viewName of renderedView.viewNames) {
+            addViewDataFromAst(renderedView.data, viewName, scopeCode, controllerPath, bladeVarInfo);
+          }
+        } else if (isAstNode(node, 'AST_METHOD_CALL') && /^with([A-Z]|$)/.test(getAstName(getAstChild(node, 'method')) || '')) {
+          addWithCallFromAst(node, getScopeCode(), controllerPath, bladeVarInfo);
+        }
+      } catch (parseError) {
+        console.warn(`Error parsing view call in ${controllerPath}::${method.name}():`, parseError);
+      }
+
+      stampDefinedInLine(bladeVarInfo, firstIndex, node.lineno);
+    });
+  }
+
+  return bladeVarInfo;
+};
+
+/**
+ * Recognize a node rendering a view: view('x', $data), View::make(), View::first(), view()->make(),
+ * view()->first(), response()->view(), Response::view() and (new ViewModel())->view('x')
+ */
+const getRenderedViewFromAst = (node: PhpAstNode): RenderedView | null => {
+  const args = getAstCallArguments(node);
+  const calleeName = (getAstName(getAstChild(node, 'expr')) || '').toLowerCase();
+  const methodName = getAstName(getAstChild(node, 'method'));
+  const className = (getAstName(getAstChild(node, 'class')) || '').split('\\').pop();
+  const target = getAstChild(node, 'expr');
+  const targetName = isAstNode(target, 'AST_CALL') && getAstCallArguments(target).length === 0
+    ? (getAstName(getAstChild(target, 'expr')) || '').toLowerCase()
+    : undefined;
+
+  let isViewCall = false;
+  let isFirstCall = false;
+  let isResponse = false;
+  let data = args[1];
+
+  if (node.kind === 'AST_CALL') {
+    isViewCall = calleeName === 'view';
+  } else if (node.kind === 'AST_STATIC_CALL') {
+    isViewCall = (className === 'View' && (methodName === 'make' || methodName === 'first')) || (className === 'Response' && methodName === 'view');
+    isFirstCall = className === 'View' && methodName === 'first';
+    isResponse = className === 'Response';
+  } else if (node.kind === 'AST_METHOD_CALL') {
+    isViewCall = (targetName === 'view' && (methodName === 'make' || methodName === 'first')) || (targetName === 'response' && methodName === 'view');
+    isFirstCall = targetName === 'view' && methodName === 'first';
+    isResponse = targetName === 'response';
+
+    // Responsable view models render themselves with their own public members
+    if (methodName === 'view' && isAstNode(target, 'AST_NEW')) {
+      isViewCall = true;
+      data = target;
+    }
+  }
+
+  if (!isViewCall) {
+    return null;
+  }
+
+  // first() receives a list of candidate views
+  const viewNames = isFirstCall && isAstNode(args[0], 'AST_ARRAY')
+    ? getAstChildren(args[0]).map(element => isAstNode(element) ? getAstChild(element, 'value') : undefined)
+    : [args[0]];
+
+  return {
+    viewNames: viewNames.filter((name): name is string => typeof name === 'string'),
+    viewArgument: args[0],
+    data,
+    isResponse
+  };
+};
+
+/**
+ * Recognize a call to a method of the class (or its parents and traits) that renders a view from its
+ * parameters: $this->render('orders.show', ['order' => $order]) with render($view, $data) returning view($view, $data)
+ */
+const getWrappedViewFromAst = (
+  node: PhpAstNode,
+  classCode: string,
+  classPath: string,
+  classNode: PhpAstNode,
+  depth = 0
+): RenderedView | null => {
+  const declaration = depth <= MAX_HELPER_DEPTH ? findCalledMethod(node, classCode, classPath, classNode) : undefined;
+  const declaringClass = declaration && findClassNode(declaration.classCode, declaration.className);
+  if (!declaration || !declaringClass) {
+    return null;
+  }
+
+  const innerViews: RenderedView[] = [];
+  walkMethodBody(declaration.node, (innerNode) => {
+    const innerView = innerViews.length === 0
+      ? getRenderedViewFromAst(innerNode) ?? getWrappedViewFromAst(innerNode, declaration.classCode, declaration.classPath, declaringClass, depth + 1)
+      : null;
+    if (innerView) {
+      innerViews.push(innerView);
+    }
+  });
+  if (innerViews.length === 0) {
+    return null;
+  }
+
+  // Map the helper's parameters to the arguments of this call
+  const { viewNames, viewArgument, data } = innerViews[0];
+  const params = getAstChild(declaration.node, 'params');
+  const parameterNames = (isAstNode(params) ? getAstChildren(params) : []).map(param => isAstNode(param) ? getAstChild(param, 'name') : undefined);
+  const args = getAstCallArguments(node);
+  const getPassedArgument = (value: PhpAstValue | undefined): PhpAstValue | undefined => {
+    const index = isAstNode(value, 'AST_VAR') ? parameterNames.indexOf(getAstChild(value, 'name')) : -1;
+    return index === -1 ? undefined : args[index];
+  };
+
+  const passedViewName = getPassedArgument(viewArgument);
+  // view($view, array_merge($this->sharedData(), $data)) still passes the caller's data
+  const mergedArrays = isAstNode(data, 'AST_CALL') && getAstName(getAstChild(data, 'expr'))?.toLowerCase() === 'array_merge'
+    ? getAstCallArguments(data)
+    : [];
+  const passedData = [data, ...mergedArrays].map(getPassedArgument).find(value => value !== undefined);
+
+  if (passedViewName === undefined) {
+    return { viewNames, viewArgument, data: passedData };
+  }
+  return {
+    viewNames: typeof passedViewName === 'string' ? [passedViewName] : [],
+    viewArgument: passedViewName,
+    data: passedData
+  };
+};
+
+/**
+ * Find the method called by $this->method(), self::method(), static::method() or parent::method()
+ * from a class, looking through its traits and parent classes
+ */
+const findCalledMethod = (
+  call: PhpAstNode,
+  classCode: string,
+  classPath: string,
+  classNode: PhpAstNode
+): PhpMethodDeclaration | undefined => {
+  const methodName = getAstName(getAstChild(call, 'method'));
+  if (!methodName) {
+    return undefined;
+  }
+
+  if (call.kind === 'AST_METHOD_CALL') {
+    const target = getAstChild(call, 'expr');
+    return isAstNode(target, 'AST_VAR') && getAstChild(target, 'name') === 'this'
+      ? findMethodInClass(classNode, methodName, classCode, classPath)
+      : undefined;
+  }
+
+  const scope = call.kind === 'AST_STATIC_CALL' ? getAstName(getAstChild(call, 'class'))?.toLowerCase() : undefined;
+  if (scope === 'self' || scope === 'static') {
+    return findMethodInClass(classNode, methodName, classCode, classPath);
+  }
+
+  const parentName = getAstName(getAstChild(classNode, 'extends'));
+  return scope === 'parent' && parentName ? findMethodDeclaration(parentName, methodName, classCode) : undefined;
+};
+
+/**
+ * Visit the nodes of a method body, leaving out the closures, functions and classes declared inside it
+ */
+const walkMethodBody = (method: PhpAstNode, visit: (node: PhpAstNode) => void) => {
+  const walk = (value: PhpAstValue | undefined) => {
+    if (!isAstNode(value) || ['AST_CLOSURE', 'AST_ARROW_FUNC', 'AST_FUNC_DECL', 'AST_CLASS'].includes(value.kind)) {
+      return;
+    }
+    visit(value);
+    getAstChildren(value).forEach(walk);
+  };
+
+  walk(getAstChild(method, 'stmts'));
+};
+
+/**
+ * Expand a call to a helper method of the class, its parents or traits ($this->viewData($order)) into the
+ * keys of the arrays it returns. The values are typed in the helper, where its parameters are declared.
+ * Returns false when the call is not to such a method.
+ */
+const addHelperMethodVariables = (
+  call: PhpAstValue,
+  viewName: string,
+  classCode: string,
+  classPath: string,
+  classNode: PhpAstNode,
+  bladeVarInfo: BladeVarInfo[],
+  depth = 0
+): boolean => {
+  const declaration = isAstNode(call) && depth <= MAX_HELPER_DEPTH ? findCalledMethod(call, classCode, classPath, classNode) : undefined;
+  const declaringClass = declaration && findClassNode(declaration.classCode, declaration.className);
+  if (!declaration || !declaringClass) {
+    return false;
+  }
+
+  const methodStart = getLineOffset(declaration.classCode, declaration.node.lineno);
+  walkMethodBody(declaration.node, (node) => {
+    const returnedValue = isAstNode(node, 'AST_RETURN') ? getAstChild(node, 'expr') : undefined;
+    if (!isAstNode(returnedValue)) {
+      return;
+    }
+
+    // return $this->baseData($order) delegates to another helper
+    if (addHelperMethodVariables(returnedValue, viewName, declaration.classCode, declaration.classPath, declaringClass, bladeVarInfo, depth + 1)) {
+      return;
+    }
+
+    const firstIndex = bladeVarInfo.length;
+    const scopeCode = getMethodScopeCode(declaration.classCode, getLineOffset(declaration.classCode, node.lineno + 1), methodStart);
+    addViewDataFromAst(returnedValue, viewName, scopeCode, declaration.classPath, bladeVarInfo);
+    stampDefinedInLine(bladeVarInfo, firstIndex, node.lineno);
+  });
+
+  return true;
+};
+
+/**
+ * Add the variables of a view data node: array literal keys, or any other expression through parseViewDataArgument.
+ * Array entries are stamped with their line unless withLines is false.
+ */
+const addViewDataFromAst = (
+  data: PhpAstValue | undefined,
+  viewName: string,
+  phpCode: string,
+  controllerPath: string,
+  bladeVarInfo: BladeVarInfo[],
+  withLines = true
+) => {
+  if (data === undefined || data === null) {
+    return;
+  }
+
+  if (!isAstNode(data, 'AST_ARRAY')) {
+    parseViewDataArgument(printAstExpression(data), viewName, phpCode, controllerPath, bladeVarInfo);
+    return;
+  }
+
+  for (const element of getAstChildren(data)) {
+    const key = isAstNode(element, 'AST_ARRAY_ELEM') ? getAstChild(element, 'key') : undefined;
+    if (isAstNode(element) && typeof key === 'string') {
+      const firstIndex = bladeVarInfo.length;
+      addViewVariable(key, printAstExpression(getAstChild(element, 'value')), viewName, phpCode, controllerPath, bladeVarInfo);
+      if (withLines) {
+        stampDefinedInLine(bladeVarInfo, firstIndex, element.lineno);
+      }
+    }
+  }
+};
+
+/**
+ * Parse a view data argument from its source with the built-in parser, so that nested arrays and strings
+ * holding commas stay whole. When the line the argument starts on is given, entries get their own line.
+ */
+export const parseViewDataExpression = (
+  dataArg: string,
+  viewName: string,
+  phpCode: string,
+  controllerPath: string,
+  bladeVarInfo: BladeVarInfo[],
+  line?: number
+) => {
+  addViewDataFromAst(parsePhpExpression(dataArg, line), viewName, phpCode, controllerPath, bladeVarInfo, line !== undefined);
+};
+
+/**
+ * Add the variables of one ->with(...) / ->withFoo(...) call whose chain starts at a view() call
+ */
+const addWithCallFromAst = (node: PhpAstNode, phpCode: string, controllerPath: string, bladeVarInfo: BladeVarInfo[]) => {
+  const methodName = getAstName(getAstChild(node, 'method')) || '';
+  const magicMatch = methodName.match(/^with([A-Z][a-zA-Z0-9_]*)?$/);
+  if (!magicMatch) {
+    return;
+  }
+
+  // Walk down the chain, past other with() calls, to the call that rendered the view
+  let target = getAstChild(node, 'expr');
+  while (isAstNode(target, 'AST_METHOD_CALL') && /^with([A-Z]|$)/.test(getAstName(getAstChild(target, 'method')) || '')) {
+    target = getAstChild(target, 'expr');
+  }
+
+  // ->withHeaders() and ->withCookie() on response()->view() configure the response, not the view
+  const renderedView = isAstNode(target) ? getRenderedViewFromAst(target) : null;
+  if (!renderedView || renderedView.isResponse) {
+    return;
+  }
+
+  for (const viewName of renderedView.viewNames) {
+    addWithArgumentsFromAst(methodName, getAstCallArguments(node), viewName, phpCode, controllerPath, bladeVarInfo);
+  }
+};
+
+/**
+ * Add the variables of the arguments of a with('key', $value), with([...]) or magic withFoo($foo) call.
+ * View::share() takes the same arguments as with().
+ */
+export const addWithArgumentsFromAst = (
+  methodName: string,
+  args: PhpAstValue[],
+  viewName: string,
+  phpCode: string,
+  definedInPath: string,
+  bladeVarInfo: BladeVarInfo[]
+) => {
+  const magicMatch = methodName.match(/^with([A-Z][a-zA-Z0-9_]*)?$/);
+  if (!magicMatch) {
+    return;
+  }
+
+  if (magicMatch[1]) {
+    // Magic withFoo($foo) call: Laravel exposes it as $foo
+    const keyName = magicMatch[1].charAt(0).toLowerCase() + magicMatch[1].slice(1);
+    addViewVariable(keyName, printAstExpression(args[0]), viewName, phpCode, definedInPath, bladeVarInfo);
+  } else if (typeof args[0] === 'string') {
+    addViewVariable(args[0], printAstExpression(args[1]), viewName, phpCode, definedInPath, bladeVarInfo);
+  } else {
+    addViewDataFromAst(args[0], viewName, phpCode, definedInPath, bladeVarInfo);
+  }
+};
+
+/**
+ * Record the source line on variables added since firstIndex that do not have one yet
+ */
+export const stampDefinedInLine = (bladeVarInfo: BladeVarInfo[], firstIndex: number, line: number) => {
+  for (const info of bladeVarInfo.slice(firstIndex)) {
+    info.definedInLine ??= line;
+  }
+};
+
 /**
  * Enhanced regex parsing with better accuracy
  */
@@ -1121,23 +2097,33 @@ const parseViewCallsUsingEnhancedRegex = (phpCode: string, controllerPath: strin
   let match;
   while ((match = viewCallPattern.exec(phpCode)) !== null) {
     const [fullMatch, viewName, variablesPart] = match;
+    const scopeCode = getMethodScopeCode(phpCode, match.index);
     
     try {
       if (variablesPart.trim().startsWith('[')) {
         // Array syntax: ['key' => $value, ...]
-        parseArraySyntaxVariables(variablesPart, viewName, phpCode, controllerPath, bladeVarInfo);
+        parseArraySyntaxVariables(variablesPart, viewName, scopeCode, controllerPath, bladeVarInfo);
       } else if (variablesPart.includes('compact')) {
         // Compact syntax: compact('var1', 'var2')
-        parseCompactSyntaxVariables(variablesPart, viewName, phpCode, controllerPath, bladeVarInfo);
+        parseCompactSyntaxVariables(variablesPart, viewName, scopeCode, controllerPath, bladeVarInfo);
       } else {
         // Variable or method call
-        parseVariableOrMethodCall(variablesPart, viewName, phpCode, controllerPath, bladeVarInfo);
+        parseVariableOrMethodCall(variablesPart, viewName, scopeCode, controllerPath, bladeVarInfo);
       }
     } catch (parseError) {
       console.warn(`Error parsing view call in ${controllerPath}:`, parseError);
     }
   }
 
+  // Variables added through ->with() chains
+  parseWithChainVariables(phpCode, controllerPath, bladeVarInfo);
+
+  // View facade, response()->view() and view()->first() calls
+  parseAlternativeViewCalls(phpCode, controllerPath, bladeVarInfo);
+
+  // View model objects passed as view data
+  parseViewModelCalls(phpCode, controllerPath, bladeVarInfo);
+
   return bladeVarInfo;
 };
 
@@ -1160,26 +2146,297 @@ const parseArraySyntaxVariables = (
   let varMatch;
   while ((varMatch = variablePattern.exec(cleanArray)) !== null) {
     const [, keyName, valueExpression] = varMatch;
-    const varName = '$' + keyName;
-    
-    // Extract the base variable name from complex expressions
-    const baseVarMatch = valueExpression.match(/\$([a-zA-Z_][a-zA-Z0-9_]*)/);
-    const sourceVar = baseVarMatch ? '$' + baseVarMatch[1] : valueExpression;
-    
-    const inferredType = inferVariableTypeEnhanced(phpCode, baseVarMatch ? baseVarMatch[1] : keyName, valueExpression);
-    const properties = inferTypeProperties(inferredType);
+    addViewVariable(keyName, valueExpression, viewName, phpCode, controllerPath, bladeVarInfo);
+  }
+};
 
-    bladeVarInfo.push({
-      name: varName,
-      source: sourceVar,
-      jumpTargetUri: convertToBladeFilePath(viewName) || '',
-      definedInPath: controllerPath,
-      type: inferredType,
-      properties: properties
-    });
+/**
+ * Add a single view variable ('key' => expression) with its inferred type
+ */
+const addViewVariable = (
+  keyName: string,
+  valueExpression: string,
+  viewName: string,
+  phpCode: string,
+  controllerPath: string,
+  bladeVarInfo: BladeVarInfo[]
+) => {
+  const varName = '$' + keyName;
+
+  // Extract the base variable name from complex expressions
+  const baseVarMatch = valueExpression.match(/\$(this->\w+\b(?!\s*\()|[a-zA-Z_][a-zA-Z0-9_]*)/);
+  const sourceVar = baseVarMatch ? '$' + baseVarMatch[1] : valueExpression;
+
+  const inferredType = inferExpressionType(phpCode, valueExpression, keyName);
+  const properties = inferTypeProperties(inferredType, phpCode);
+  const plainVarMatch = valueExpression.trim().match(/^\$(\w+)$/);
+
+  bladeVarInfo.push({
+    name: varName,
+    source: sourceVar,
+    jumpTargetUri: convertToBladeFilePath(viewName) || '',
+    definedInPath: controllerPath,
+    docComment: plainVarMatch ? findVarDocComment(phpCode, plainVarMatch[1]) : undefined,
+    type: inferredType,
+    properties: properties
+  });
+
+  // Handle collection types for foreach
+  addCollectionItemTypes(inferredType, varName, viewName, controllerPath, bladeVarInfo);
+};
 
-    // Handle collection types for foreach
-    addCollectionItemTypes(inferredType, varName, viewName, controllerPath, bladeVarInfo);
+/**
+ * Add a public class member (property or method) as a view variable
+ */
+export const addClassMemberVariable = (
+  member: PhpClassMember,
+  viewName: string,
+  className: string,
+  classPath: string,
+  bladeVarInfo: BladeVarInfo[],
+  isCallable = member.isMethod
+) => {
+  const varName = '$' + member.name;
+  const memberType = inferMemberType(member, className);
+
+  bladeVarInfo.push({
+    name: varName,
+    source: member.isMethod ? `${className}::${member.name}()` : `${className}::$${member.name}`,
+    jumpTargetUri: convertToBladeFilePath(viewName) || '',
+    definedInPath: classPath,
+    definedInLine: member.line,
+    type: memberType,
+    properties: inferTypeProperties(memberType),
+    isCallable
+  });
+
+  // Handle collection types for foreach
+  addCollectionItemTypes(memberType, varName, viewName, classPath, bladeVarInfo);
+};
+
+/**
+ * Infer the type of a value expression in the context of the surrounding PHP code
+ */
+export const inferExpressionType = (phpCode: string, valueExpression: string, keyName: string): PHPType => {
+  try {
+    const flowType = inferFlowValueType(phpCode, valueExpression, createFlowResolvers(phpCode));
+    if (flowType !== 'mixed') {
+      return flowType as PHPType;
+    }
+  } catch (error) {
+    // Fall back to the type of the expression's base variable
+  }
+
+  // $post->author->name is typed through the members of the base variable's type, not as the variable
+  const memberChain = readMemberChain(valueExpression);
+  if (memberChain && memberChain.members.length > 0) {
+    let chainType: string = inferVariableTypeEnhanced(phpCode, memberChain.base, `$${memberChain.base}`);
+    for (const { name, nullsafe } of memberChain.members) {
+      const memberType = chainType === 'mixed' ? 'mixed' : inferTypeProperties(chainType, phpCode)[name] ?? 'mixed';
+      // $post?->title is null when $post is
+      chainType = nullsafe && splitUnionType(chainType).includes('null') ? joinUnionTypes([memberType, 'null']) : memberType;
+    }
+    return chainType as PHPType;
+  }
+
+  const baseVarMatch = valueExpression.match(/\$(this->\w+\b(?!\s*\()|[a-zA-Z_][a-zA-Z0-9_]*)/);
+  return inferVariableTypeEnhanced(phpCode, baseVarMatch ? baseVarMatch[1] : keyName, valueExpression);
+};
+
+/**
+ * Read the property and method chain on a variable: $post->author->name() gives the base post and the
+ * members author and name. $this->order is the base of $this->order->total. Undefined for other expressions.
+ */
+const readMemberChain = (valueExpression: string): { base: string; members: { name: string; nullsafe: boolean }[] } | undefined => {
+  const members: { name: string; nullsafe: boolean }[] = [];
+  let node: PhpAstValue | undefined;
+  try {
+    node = parsePhpExpression(valueExpression);
+  } catch (error) {
+    return undefined;
+  }
+
+  while (isAstNode(node) && ['AST_PROP', 'AST_NULLSAFE_PROP', 'AST_METHOD_CALL', 'AST_NULLSAFE_METHOD_CALL'].includes(node.kind)) {
+    const member = getAstChild(node, node.kind.endsWith('PROP') ? 'prop' : 'method');
+    if (typeof member !== 'string') {
+      return undefined;
+    }
+    members.unshift({ name: member, nullsafe: node.kind.startsWith('AST_NULLSAFE') });
+    node = getAstChild(node, 'expr');
+  }
+
+  const base = isAstNode(node, 'AST_VAR') ? getAstChild(node, 'name') : undefined;
+  if (typeof base !== 'string') {
+    return undefined;
+  }
+  if (base === 'this') {
+    const property = members.shift();
+    return property ? { base: `this->${property.name}`, members } : undefined;
+  }
+  return { base, members };
+};
+
+/**
+ * Infer a class member's type from its type hint, return type or default value
+ */
+export const inferMemberType = (member: PhpClassMember, className: string): PHPType => {
+  if (member.typeHint) {
+    return normalizeTypeHint(member.typeHint, className);
+  }
+
+  if (!member.isMethod && member.defaultValue) {
+    return inferValueType(member.defaultValue);
+  }
+
+  return 'mixed';
+};
+
+/**
+ * Infer the type of a value expression as if it were assigned to a variable
+ */
+export const inferValueType = (valueExpression: string): PHPType => {
+  return inferVariableType(`$value = ${valueExpression.trim()};`, 'value');
+};
+
+/**
+ * Parse variables added through a fluent chain: view('name')->with('key', $value)->with([...])->withFoo($foo)
+ */
+const parseWithChainVariables = (phpCode: string, controllerPath: string, bladeVarInfo: BladeVarInfo[]) => {
+  const viewStartPattern = VIEW_CALL_PATTERNS.viewCallStart;
+
+  let viewMatch;
+  while ((viewMatch = viewStartPattern.exec(phpCode)) !== null) {
+    const viewName = viewMatch[1];
+    const openParen = viewMatch.index + viewMatch[0].indexOf('(');
+    const closeParen = findClosingBracket(phpCode, openParen);
+    if (closeParen === -1) {
+      continue;
+    }
+
+    followWithChain(phpCode, closeParen + 1, viewName, getMethodScopeCode(phpCode, viewMatch.index), controllerPath, bladeVarInfo);
+  }
+};
+
+/**
+ * Follow ->with...() calls in chainCode starting at cursor until the chain ends. Returns where the chain ended.
+ * ignoredMethods are real with* methods of the receiver, which pass no view data and are stepped over.
+ */
+export const followWithChain = (
+  chainCode: string,
+  cursor: number,
+  viewName: string,
+  phpCode: string,
+  definedInPath: string,
+  bladeVarInfo: BladeVarInfo[],
+  ignoredMethods: readonly string[] = []
+): number => {
+  let withMatch;
+  while ((withMatch = chainCode.slice(cursor).match(VIEW_CALL_PATTERNS.withChainCall)) !== null) {
+    const callOpen = cursor + withMatch[0].length - 1;
+    const callClose = findClosingBracket(chainCode, callOpen);
+    if (callClose === -1) {
+      break;
+    }
+
+    if (ignoredMethods.includes(`with${withMatch[1] ?? ''}`)) {
+      cursor = callClose + 1;
+      continue;
+    }
+
+    const args = splitTopLevelArguments(chainCode.slice(callOpen + 1, callClose));
+    try {
+      if (withMatch[1]) {
+        // Magic withFoo($foo) call: Laravel exposes it as $foo
+        const keyName = withMatch[1].charAt(0).toLowerCase() + withMatch[1].slice(1);
+        addViewVariable(keyName, args[0] || 'null', viewName, phpCode, definedInPath, bladeVarInfo);
+      } else if (args.length > 0) {
+        parseWithArgument(args, viewName, phpCode, definedInPath, bladeVarInfo);
+      }
+    } catch (parseError) {
+      console.warn(`Error parsing with() chain in ${definedInPath}:`, parseError);
+    }
+
+    cursor = callClose + 1;
+  }
+
+  return cursor;
+};
+
+/**
+ * Parse the arguments of a with() call: with('key', $value), with([...]) or with(compact(...))
+ */
+export const parseWithArgument = (
+  args: string[],
+  viewName: string,
+  phpCode: string,
+  controllerPath: string,
+  bladeVarInfo: BladeVarInfo[]
+) => {
+  const firstArg = args[0];
+  const keyMatch = firstArg.match(/^['"]([^'"]+)['"]$/);
+
+  if (keyMatch) {
+    addViewVariable(keyMatch[1], args[1] || 'null', viewName, phpCode, controllerPath, bladeVarInfo);
+  } else {
+    parseViewDataExpression(firstArg, viewName, phpCode, controllerPath, bladeVarInfo);
+  }
+};
+
+/**
+ * Parse a view data argument: [...], array(...), compact(...) or a variable
+ */
+export const parseViewDataArgument = (
+  dataArg: string,
+  viewName: string,
+  phpCode: string,
+  controllerPath: string,
+  bladeVarInfo: BladeVarInfo[]
+) => {
+  if (dataArg.startsWith('[')) {
+    parseArraySyntaxVariables(dataArg, viewName, phpCode, controllerPath, bladeVarInfo);
+  } else if (/^array\s*\(/.test(dataArg)) {
+    const arrayBody = dataArg.slice(dataArg.indexOf('(') + 1, -1);
+    parseArraySyntaxVariables(`[${arrayBody}]`, viewName, phpCode, controllerPath, bladeVarInfo);
+  } else if (dataArg.startsWith('compact')) {
+    parseCompactSyntaxVariables(dataArg, viewName, phpCode, controllerPath, bladeVarInfo);
+  } else {
+    parseVariableOrMethodCall(dataArg, viewName, phpCode, controllerPath, bladeVarInfo);
+  }
+};
+
+/**
+ * Parse View::make(), response()->view(), Response::view() and view()->first() calls.
+ * first() attaches the variables to every candidate template.
+ */
+const parseAlternativeViewCalls = (phpCode: string, controllerPath: string, bladeVarInfo: BladeVarInfo[]) => {
+  const callPattern = VIEW_CALL_PATTERNS.alternativeCall;
+
+  let callMatch;
+  while ((callMatch = callPattern.exec(phpCode)) !== null) {
+    const openParen = callMatch.index + callMatch[0].length - 1;
+    const closeParen = findClosingBracket(phpCode, openParen);
+    if (closeParen === -1) {
+      continue;
+    }
+
+    const [viewArg, dataArg] = splitTopLevelArguments(phpCode.slice(openParen + 1, closeParen));
+    if (!viewArg || !dataArg) {
+      continue;
+    }
+
+    // view()->first(['a', 'b'], ...) passes a list of candidate views
+    const viewNames = callMatch[1].endsWith('first')
+      ? (viewArg.match(/['"][^'"]+['"]/g) || []).map(name => name.slice(1, -1))
+      : [viewArg.match(/^['"]([^'"]+)['"]$/)?.[1]].filter((name): name is string => !!name);
+
+    const scopeCode = getMethodScopeCode(phpCode, callMatch.index);
+    for (const viewName of viewNames) {
+      try {
+        parseViewDataArgument(dataArg, viewName, scopeCode, controllerPath, bladeVarInfo);
+      } catch (parseError) {
+        console.warn(`Error parsing view call in ${controllerPath}:`, parseError);
+      }
+    }
   }
 };
 
@@ -1207,13 +2464,14 @@ const parseCompactSyntaxVariables = (
   for (const varName of variableNames) {
     const fullVarName = '$' + varName;
     const inferredType = inferVariableTypeEnhanced(phpCode, varName, fullVarName);
-    const properties = inferTypeProperties(inferredType);
+    const properties = inferTypeProperties(inferredType, phpCode);
     
     bladeVarInfo.push({
       name: fullVarName,
       source: fullVarName,
       jumpTargetUri: convertToBladeFilePath(viewName) || '',
       definedInPath: controllerPath,
+      docComment: findVarDocComment(phpCode, varName),
       type: inferredType,
       properties: properties
     });
@@ -1233,12 +2491,31 @@ const parseVariableOrMethodCall = (
   controllerPath: string,
   bladeVarInfo: BladeVarInfo[]
 ) => {
+  // View model instances expand into their public members
+  if (addViewModelVariables(expression, viewName, phpCode, controllerPath, bladeVarInfo)) {
+    return;
+  }
+
+  // Helper methods returning the view data: $this->viewData($order)
+  if (/^(?:\$this\s*->|(?:self|static|parent)\s*::)/.test(expression.trim())) {
+    try {
+      const classCode = fs.readFileSync(controllerPath, 'utf-8');
+      const className = classCode.match(CLASS_PATTERNS.className)?.[1];
+      const classNode = className ? findClassNode(classCode, className) : undefined;
+      if (classNode && addHelperMethodVariables(parsePhpExpression(expression.trim()), viewName, classCode, controllerPath, classNode, bladeVarInfo)) {
+        return;
+      }
+    } catch (error) {
+      // Not a helper call we can follow
+    }
+  }
+
   // Handle cases like $data, $this->getData(), etc.
   const varMatch = expression.match(/\$([a-zA-Z_][a-zA-Z0-9_]*)/);
   if (varMatch) {
     const varName = '$' + varMatch[1];
     const inferredType = inferVariableTypeEnhanced(phpCode, varMatch[1], expression);
-    const properties = inferTypeProperties(inferredType);
+    const properties = inferTypeProperties(inferredType, phpCode);
     
     bladeVarInfo.push({
       name: varName,
@@ -1254,6 +2531,100 @@ const parseVariableOrMethodCall = (
   }
 };
 
+/**
+ * Parse view('name', new PostViewModel(...)), view('name', $viewModel) and (new PostViewModel(...))->view('name')
+ */
+const parseViewModelCalls = (phpCode: string, controllerPath: string, bladeVarInfo: BladeVarInfo[]) => {
+  const callPattern = VIEW_CALL_PATTERNS.objectDataCall;
+
+  let callMatch;
+  while ((callMatch = callPattern.exec(phpCode)) !== null) {
+    const openParen = phpCode.indexOf('(', callMatch.index);
+    const closeParen = findClosingBracket(phpCode, openParen);
+    const dataArg = closeParen === -1 ? undefined : splitTopLevelArguments(phpCode.slice(openParen + 1, closeParen))[1];
+    if (dataArg) {
+      addViewModelVariables(dataArg, callMatch[1], getMethodScopeCode(phpCode, callMatch.index), controllerPath, bladeVarInfo);
+    }
+  }
+
+  // Responsable view models render themselves
+  const instancePattern = VIEW_MODEL_PATTERNS.responsableInstance;
+
+  let instanceMatch;
+  while ((instanceMatch = instancePattern.exec(phpCode)) !== null) {
+    const argsOpen = instanceMatch.index + instanceMatch[0].length - 1;
+    const argsClose = findClosingBracket(phpCode, argsOpen);
+    const viewMatch = argsClose === -1 ? null : phpCode.slice(argsClose + 1).match(VIEW_MODEL_PATTERNS.responsableView);
+    if (viewMatch) {
+      addViewModelVariables(`new ${instanceMatch[1]}()`, viewMatch[1], getMethodScopeCode(phpCode, instanceMatch.index), controllerPath, bladeVarInfo);
+    }
+  }
+};
+
+/**
+ * Expand a spatie/laravel-view-models instance (new X(...) or a variable holding one) into its public members,
+ * those it inherits included. Returns false when the expression is not a view model.
+ */
+const addViewModelVariables = (
+  expression: string,
+  viewName: string,
+  phpCode: string,
+  controllerPath: string,
+  bladeVarInfo: BladeVarInfo[]
+): boolean => {
+  const trimmedExpression = expression.trim();
+  const variableMatch = trimmedExpression.match(/^\$([a-zA-Z_][a-zA-Z0-9_]*)$/);
+  // phpCode runs up to the view call, so the last assignment is the one the view gets
+  const className = variableMatch
+    ? [...phpCode.matchAll(new RegExp(`\\$${variableMatch[1]}\\s*=\\s*new\\s+(\\\\?[\\w\\\\]+)`, 'g'))].pop()?.[1]
+    : trimmedExpression.match(VIEW_MODEL_PATTERNS.newInstance)?.[1];
+  if (!className || !isSubclassOf(className, phpCode, ['ViewModel'])) {
+    return false;
+  }
+
+  const { members, ignoredMembers = [] } = collectViewModelMembers(className, phpCode);
+  for (const member of members) {
+    if (ignoredMembers.includes(member.name) || ['toArray', 'toResponse', 'view'].includes(member.name)) {
+      continue;
+    }
+
+    // Methods without parameters are called and exposed as values; others are exposed as closures
+    const isCallable = member.isMethod && (member.parameters?.length ?? 0) > 0;
+    addClassMemberVariable(member, viewName, member.className, member.classPath, bladeVarInfo, isCallable);
+  }
+
+  return true;
+};
+
+/**
+ * Collect the public members of a view model and of its parent classes below ViewModel. A member redeclared
+ * in a subclass hides the parent's, and the closest $ignore property applies.
+ */
+const collectViewModelMembers = (
+  className: string,
+  phpCode: string,
+  depth = 0
+): { members: (PhpClassMember & { className: string; classPath: string })[]; ignoredMembers?: string[] } => {
+  const shortClassName = className.split('\\').pop() || className;
+  const classPath = shortClassName !== 'ViewModel' && depth < 10 ? resolveClassFilePath(className, phpCode) : null;
+  if (!classPath) {
+    return { members: [] };
+  }
+
+  const classCode = fs.readFileSync(classPath, 'utf-8');
+  const parentName = classCode.match(CLASS_PATTERNS.parentClass)?.[1];
+  const parent = parentName ? collectViewModelMembers(parentName, classCode, depth + 1) : { members: [] };
+  const ownMembers = parsePublicMembers(classCode).map(member => ({ ...member, className: shortClassName, classPath }));
+  const ignoreList = classCode.match(VIEW_MODEL_PATTERNS.ignoreProperty)?.[1];
+
+  return {
+    members: [...ownMembers, ...parent.members.filter(member => !ownMembers.some(own => own.name === member.name))],
+    ignoredMembers: ignoreList !== undefined
+      ? (ignoreList.match(/['"][^'"]+['"]/g) || []).map(name => name.slice(1, -1))
+      : parent.ignoredMembers
+  };
+};
+
 /**
  * Add collection item types for foreach loops
  */
@@ -1264,8 +2635,8 @@ const addCollectionItemTypes = (
   controllerPath: string,
   bladeVarInfo: BladeVarInfo[]
 ) => {
-  if (type.startsWith('Collection<') && type.endsWith('>')) {
-    const itemType = type.slice(11, -1);
+  const itemType = getIterableItemType(type);
+  if (itemType) {
     const bladeFilePath = convertToBladeFilePath(viewName);
     
     if (bladeFilePath) {
@@ -1325,6 +2696,12 @@ const inferVariableTypeEnhanced = (code: string, varName: string, fullExpression
     }
   }
 
+  // Inline literals and static calls: type them as if they were assigned to a variable
+  const trimmedExpression = fullExpression.trim();
+  if (trimmedExpression && !trimmedExpression.startsWith('$')) {
+    return inferValueType(trimmedExpression);
+  }
+
   return basicType;
 };
 
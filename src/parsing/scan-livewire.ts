@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { CLASS_PATTERNS, LIVEWIRE_PATTERNS } from './php-patterns';
+import { parsePublicMembers } from './php-class';
+import { BladeVarInfo, addClassMemberVariable, convertToBladeFilePath, inferMemberType } from './scan-controller';
+import { findRenderedViewName, getConventionalViewName } from './scan-components';
+
+/**
+ * Livewire lifecycle hooks that are not actions
+ */
+const LIFECYCLE_METHODS = [
+  'boot',
+  'booted',
+  'mount',
+  'hydrate',
+  'dehydrate',
+  'render',
+  'rendering',
+  'rendered',
+  'placeholder',
+  'exception'
+];
+
+/**
+ * Scan all Livewire components (v3 app/Livewire and v2 app/Http/Livewire) using VSCode API.
+ */
+export const listLivewireFiles = async (): Promise<vscode.Uri[]> => {
+  return vscode.workspace.findFiles('{app/Livewire/**/*.php,app/Http/Livewire/**/*.php}', '{**/vendor/**,**/node_modules/**}');
+};
+
+/**
+ * Parse a Livewire component and expose its public properties, computed properties and actions to its view
+ */
+export const parseLivewireVariables = (componentPath: string): BladeVarInfo[] => {
+  try {
+    const phpCode = fs.readFileSync(componentPath, 'utf-8');
+    const className = phpCode.match(CLASS_PATTERNS.className)?.[1];
+    const viewName = findRenderedViewName(phpCode)
+      || getConventionalViewName(componentPath, /app\/(?:Http\/)?Livewire\/(.+)\.php$/, 'livewire');
+    if (!className || !viewName) {
+      return [];
+    }
+
+    const bladeVarInfo: BladeVarInfo[] = [];
+    const computedMethods = [...phpCode.matchAll(LIVEWIRE_PATTERNS.computedAttribute)].map(match => match[1]);
+
+    // Everything reachable through $this-> in the view
+    const thisProperties: Record<string, string> = {};
+    const thisMethods: string[] = [];
+
+    for (const member of parsePublicMembers(phpCode)) {
+      const memberType = inferMemberType(member, className);
+
+      if (!member.isMethod) {
+        // Public properties are available both as $prop and $this->prop
+        addClassMemberVariable(member, viewName, className, componentPath, bladeVarInfo);
+        thisProperties[member.name] = memberType;
+        continue;
+      }
+
+      // #[Computed] methods and v2 getFooProperty() getters are read as $this->foo
+      const getterMatch = member.name.match(LIVEWIRE_PATTERNS.computedGetter);
+      if (computedMethods.includes(member.name)) {
+        thisProperties[member.name] = memberType;
+      } else if (getterMatch) {
+        thisProperties[getterMatch[1].charAt(0).toLowerCase() + getterMatch[1].slice(1)] = memberType;
+      } else if (!isLifecycleMethod(member.name)) {
+        thisProperties[member.name] = memberType;
+        thisMethods.push(member.name);
+      }
+    }
+
+    bladeVarInfo.push({
+      name: '$this',
+      source: `${className} (Livewire component)`,
+      jumpTargetUri: convertToBladeFilePath(viewName) || '',
+      definedInPath: componentPath,
+      type: className,
+      properties: thisProperties,
+      methods: thisMethods
+    });
+
+    return bladeVarInfo.filter(info => info.jumpTargetUri);
+  } catch (error) {
+    console.error(`Error parsing Livewire component ${componentPath}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Check whether a method is a Livewire lifecycle hook (mount, updatedFoo, hydrateFoo, ...)
+ */
+const isLifecycleMethod = (methodName: string): boolean => {
+  return LIFECYCLE_METHODS.includes(methodName) || /^(?:updating|updated|hydrate|dehydrate|boot|mount)[A-Z]/.test(methodName);
+};
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { CLASS_PATTERNS, MAIL_PATTERNS } from './php-patterns';
+import { findEnclosingMethodStart, getLineNumber, getMethodScopeCode, parsePublicMembers } from './php-class';
+import { findClosingBracket, splitTopLevelArguments } from './php-syntax';
+import { BladeVarInfo, addClassMemberVariable, followWithChain, parseViewDataExpression } from './scan-controller';
+
+/**
+ * Real Mailable methods that start with "with" but do not pass view data
+ */
+const NON_DATA_WITH_METHODS = [
+  'withSymfonyMessage',
+  'withSwiftMessage',
+  'withTag',
+  'withMetadata',
+  'withLocale'
+];
+
+/**
+ * A view rendered by a mail class, with the data argument passed alongside it
+ */
+type MailView = {
+  viewName: string;
+  dataArg?: string;
+  offset: number;
+  line: number;
+};
+
+/**
+ * Scan all Mailables and Notifications using VSCode API.
+ */
+export const listMailFiles = async (): Promise<vscode.Uri[]> => {
+  return vscode.workspace.findFiles('{app/Mail/**/*.php,app/Notifications/**/*.php}', '{**/vendor/**,**/node_modules/**}');
+};
+
+/**
+ * Parse a Mailable or Notification and extract the variables passed to its mail views
+ */
+export const parseMailVariables = (mailPath: string): BladeVarInfo[] => {
+  try {
+    const phpCode = fs.readFileSync(mailPath, 'utf-8');
+    const className = phpCode.match(CLASS_PATTERNS.className)?.[1];
+    const isMailable = MAIL_PATTERNS.mailableClass.test(phpCode);
+    const bladeVarInfo: BladeVarInfo[] = [];
+    const mailViews = [...findContentViews(phpCode), ...findViewMethodCalls(phpCode)];
+
+    for (const { viewName, dataArg, offset, line } of mailViews) {
+      const firstNewIndex = bladeVarInfo.length;
+
+      if (dataArg) {
+        parseViewDataExpression(dataArg, viewName, getMethodScopeCode(phpCode, offset), mailPath, bladeVarInfo);
+      }
+
+      // Mailable::with() data in build() or content() is shared by every view of the mailable.
+      // MailMessage::with() adds a text line instead, so notifications are skipped.
+      if (isMailable) {
+        const withPattern = new RegExp(MAIL_PATTERNS.withCall);
+        let withMatch;
+        while ((withMatch = withPattern.exec(phpCode)) !== null) {
+          const methodStart = findEnclosingMethodStart(phpCode, withMatch.index);
+          if (methodStart === undefined || !MAIL_PATTERNS.dataMethodDeclaration.test(phpCode.slice(methodStart))) {
+            continue;
+          }
+
+          const scopeCode = getMethodScopeCode(phpCode, withMatch.index, methodStart);
+          withPattern.lastIndex = followWithChain(phpCode, withMatch.index, viewName, scopeCode, mailPath, bladeVarInfo, NON_DATA_WITH_METHODS);
+        }
+      }
+
+      for (const info of bladeVarInfo.slice(firstNewIndex)) {
+        info.definedInLine = info.definedInLine ?? line;
+      }
+
+      // Public properties of a Mailable are available in its views
+      if (isMailable && className) {
+        for (const member of parsePublicMembers(phpCode)) {
+          if (!member.isMethod) {
+            addClassMemberVariable(member, viewName, className, mailPath, bladeVarInfo);
+          }
+        }
+      }
+    }
+
+    return bladeVarInfo.filter(info => info.jumpTargetUri);
+  } catch (error) {
+    console.error(`Error parsing ${mailPath}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Find views declared with new Content(view: '...', markdown: '...', with: [...])
+ */
+const findContentViews = (phpCode: string): MailView[] => {
+  const mailViews: MailView[] = [];
+  const contentPattern = new RegExp(MAIL_PATTERNS.contentConstructor);
+
+  let contentMatch;
+  while ((contentMatch = contentPattern.exec(phpCode)) !== null) {
+    const openParen = contentMatch.index + contentMatch[0].length - 1;
+    const closeParen = findClosingBracket(phpCode, openParen);
+    if (closeParen === -1) {
+      continue;
+    }
+
+    const args = splitTopLevelArguments(phpCode.slice(openParen + 1, closeParen));
+    const offset = contentMatch.index;
+    const line = getLineNumber(phpCode, offset);
+    const dataArg = args.map(arg => arg.match(MAIL_PATTERNS.contentNamedWith)?.[1]).find(Boolean);
+
+    args.forEach((arg, index) => {
+      // The first positional argument is the view
+      const viewName = arg.match(MAIL_PATTERNS.contentNamedView)?.[1]
+        ?? (index === 0 ? arg.match(/^['"]([^'"]+)['"]$/)?.[1] : undefined);
+      if (viewName) {
+        mailViews.push({ viewName, dataArg, offset, line });
+      }
+    });
+  }
+
+  return mailViews;
+};
+
+/**
+ * Find ->view('...', [...]), ->markdown('...', [...]) and ->text('...') calls in build() or toMail()
+ */
+const findViewMethodCalls = (phpCode: string): MailView[] => {
+  const mailViews: MailView[] = [];
+  const callPattern = new RegExp(MAIL_PATTERNS.viewMethodCall);
+
+  let callMatch;
+  while ((callMatch = callPattern.exec(phpCode)) !== null) {
+    const openParen = phpCode.indexOf('(', callMatch.index);
+    const closeParen = findClosingBracket(phpCode, openParen);
+    if (closeParen === -1) {
+      continue;
+    }
+
+    const [viewArg, dataArg] = splitTopLevelArguments(phpCode.slice(openParen + 1, closeParen));
+    const viewName = viewArg?.match(/^['"]([^'"]+)['"]$/)?.[1];
+    if (viewName) {
+      mailViews.push({ viewName, dataArg, offset: callMatch.index, line: getLineNumber(phpCode, callMatch.index) });
+    }
+  }
+
+  return mailViews;
+};
@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { getLineOffset, getMethodScopeCode, resolveClassFilePath } from './php-class';
+import { PhpAstNode, PhpAstValue, findClassMethods, getAstCallArguments, getAstChild, getAstChildren, getAstName, isAstNode, walkAst } from './php-ast';
+import { parsePhp } from './php-parser';
+import { findClassNode } from './php-return-types';
+import { BladeVarInfo, addWithArgumentsFromAst, stampDefinedInLine } from './scan-controller';
+
+/**
+ * Scan all service providers using VSCode API.
+ */
+export const listProviderFiles = async (): Promise<vscode.Uri[]> => {
+  return vscode.workspace.findFiles('app/Providers/**/*.php', '{**/vendor/**,**/node_modules/**}');
+};
+
+/**
+ * Parse a service provider and extract variables from View::share() and view composers
+ */
+export const parseSharedViewVariables = (providerPath: string): BladeVarInfo[] => {
+  try {
+    const phpCode = fs.readFileSync(providerPath, 'utf-8');
+    const bladeVarInfo: BladeVarInfo[] = [];
+
+    walkAst(parsePhp(phpCode), (node) => {
+      const factoryMethod = getViewFactoryMethod(node);
+      if (!factoryMethod) {
+        return;
+      }
+
+      const firstIndex = bladeVarInfo.length;
+      const args = getAstCallArguments(node);
+      try {
+        if (factoryMethod === 'share') {
+          // View::share('key', $value) and View::share([...]) apply to every view
+          const scopeCode = getMethodScopeCode(phpCode, getLineOffset(phpCode, node.lineno + 1));
+          addWithArgumentsFromAst('with', args, '*', scopeCode, providerPath, bladeVarInfo);
+        } else {
+          // View::composer('partials.nav', NavComposer::class) or View::composer('*', function (View $view) {...})
+          const [viewsArgument, composerArgument] = args;
+          const viewPatterns = isAstNode(viewsArgument, 'AST_ARRAY')
+            ? getAstChildren(viewsArgument).map(element => isAstNode(element) ? getAstChild(element, 'value') : undefined)
+            : [viewsArgument];
+          for (const viewPattern of viewPatterns.filter((pattern): pattern is string => typeof pattern === 'string')) {
+            parseComposer(composerArgument, viewPattern, phpCode, providerPath, bladeVarInfo);
+          }
+        }
+      } catch (parseError) {
+        console.warn(`Error parsing view ${factoryMethod}() in ${providerPath}:`, parseError);
+      }
+
+      stampDefinedInLine(bladeVarInfo, firstIndex, node.lineno);
+    });
+
+    return bladeVarInfo;
+  } catch (error) {
+    console.error(`Error parsing ${providerPath}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Recognize a call on the view factory, View::share() or view()->composer(), and give its method:
+ * share, or composer for composers and creators
+ */
+const getViewFactoryMethod = (node: PhpAstNode): 'share' | 'composer' | undefined => {
+  let methodName: string | undefined;
+  if (isAstNode(node, 'AST_STATIC_CALL') && getAstName(getAstChild(node, 'class'))?.split('\\').pop() === 'View') {
+    methodName = getAstName(getAstChild(node, 'method'));
+  } else if (isAstNode(node, 'AST_METHOD_CALL')) {
+    const target = getAstChild(node, 'expr');
+    const isViewHelper = isAstNode(target, 'AST_CALL') && getAstCallArguments(target).length === 0
+      && getAstName(getAstChild(target, 'expr'))?.toLowerCase() === 'view';
+    methodName = isViewHelper ? getAstName(getAstChild(node, 'method')) : undefined;
+  }
+
+  if (methodName === 'share') {
+    return 'share';
+  }
+  return methodName === 'composer' || methodName === 'creator' ? 'composer' : undefined;
+};
+
+/**
+ * Parse a composer given as a closure or a class reference
+ */
+const parseComposer = (
+  composerArgument: PhpAstValue | undefined,
+  viewPattern: string,
+  providerCode: string,
+  providerPath: string,
+  bladeVarInfo: BladeVarInfo[]
+) => {
+  // Closure composer: function (View $view) { $view->with(...); }
+  if (isAstNode(composerArgument, 'AST_CLOSURE') || isAstNode(composerArgument, 'AST_ARROW_FUNC')) {
+    parseViewParameterWithCalls(composerArgument, viewPattern, providerCode, providerPath, bladeVarInfo);
+    return;
+  }
+
+  // Class composer: NavComposer::class or 'App\View\Composers\NavComposer'
+  const className = isAstNode(composerArgument, 'AST_CLASS_NAME')
+    ? getAstName(getAstChild(composerArgument, 'class'))
+    : typeof composerArgument === 'string' ? '\\' + composerArgument.replace(/^\\/, '') : undefined;
+  const composerPath = className ? resolveClassFilePath(className, providerCode) : null;
+  if (!className || !composerPath) {
+    return;
+  }
+
+  const composerCode = fs.readFileSync(composerPath, 'utf-8');
+  const composerClass = findClassNode(composerCode, className.split('\\').pop() || className);
+  const composeMethod = composerClass && findClassMethods(composerClass).find(method => method.name === 'compose');
+  if (composeMethod) {
+    parseViewParameterWithCalls(composeMethod.node, viewPattern, composerCode, composerPath, bladeVarInfo);
+  }
+};
+
+/**
+ * Parse the $view->with(...) chains on the view parameter of a composer closure or compose() method
+ */
+const parseViewParameterWithCalls = (
+  composer: PhpAstNode,
+  viewPattern: string,
+  phpCode: string,
+  definedInPath: string,
+  bladeVarInfo: BladeVarInfo[]
+) => {
+  const params = getAstChild(composer, 'params');
+  const [viewParam] = isAstNode(params) ? getAstChildren(params) : [];
+  const parameterName = isAstNode(viewParam) ? getAstName(getAstChild(viewParam, 'name')) : undefined;
+  if (!parameterName) {
+    return;
+  }
+
+  const isWithCall = (value: PhpAstValue | undefined): value is PhpAstNode =>
+    isAstNode(value, 'AST_METHOD_CALL') && /^with([A-Z]|$)/.test(getAstName(getAstChild(value, 'method')) || '');
+  const followedCalls = new Set<PhpAstNode>();
+
+  walkAst(getAstChild(composer, 'stmts'), (node) => {
+    if (!isWithCall(node) || followedCalls.has(node)) {
+      return;
+    }
+
+    // Walk down the chain, past other with() calls, to the view parameter; the calls apply innermost first
+    const chain: PhpAstNode[] = [];
+    let target: PhpAstValue | undefined = node;
+    while (isWithCall(target)) {
+      chain.unshift(target);
+      followedCalls.add(target);
+      target = getAstChild(target, 'expr');
+    }
+    if (!isAstNode(target, 'AST_VAR') || getAstChild(target, 'name') !== parameterName) {
+      return;
+    }
+
+    for (const call of chain) {
+      const firstIndex = bladeVarInfo.length;
+      const scopeCode = getMethodScopeCode(phpCode, getLineOffset(phpCode, call.lineno + 1));
+      const methodName = getAstName(getAstChild(call, 'method')) || '';
+      addWithArgumentsFromAst(methodName, getAstCallArguments(call), viewPattern, scopeCode, definedInPath, bladeVarInfo);
+      stampDefinedInLine(bladeVarInfo, firstIndex, call.lineno);
+    }
+  });
+};
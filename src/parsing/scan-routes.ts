@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { ROUTE_PATTERNS } from './php-patterns';
+import { getLineNumber } from './php-class';
+import { BladeVarInfo, parseViewDataExpression } from './scan-controller';
+import { findClosingBracket, splitTopLevelArguments } from './php-syntax';
+
+/**
+ * Scan route files using VSCode API.
+ */
+export const listRouteFiles = async (routesPath: string): Promise<vscode.Uri[]> => {
+  return vscode.workspace.findFiles(routesPath, '{**/vendor/**,**/node_modules/**}');
+};
+
+/**
+ * Parse a route file and extract variables passed through Route::view('/uri', 'view', [...])
+ */
+export const parseViewVariablesFromRoutes = (routePath: string): BladeVarInfo[] => {
+  try {
+    const phpCode = fs.readFileSync(routePath, 'utf-8');
+    const bladeVarInfo: BladeVarInfo[] = [];
+    const routePattern = ROUTE_PATTERNS.viewRoute;
+
+    let routeMatch;
+    while ((routeMatch = routePattern.exec(phpCode)) !== null) {
+      const openParen = routeMatch.index + routeMatch[0].length - 1;
+      const closeParen = findClosingBracket(phpCode, openParen);
+      if (closeParen === -1) {
+        continue;
+      }
+
+      const [, viewArg, dataArg] = splitTopLevelArguments(phpCode.slice(openParen + 1, closeParen));
+      const viewName = viewArg?.match(/^['"]([^'"]+)['"]$/)?.[1];
+      if (!viewName || !dataArg) {
+        continue;
+      }
+
+      // Point every variable at the line of the route definition
+      const firstNewIndex = bladeVarInfo.length;
+      const routeLine = getLineNumber(phpCode, routeMatch.index);
+      parseViewDataExpression(dataArg, viewName, phpCode, routePath, bladeVarInfo);
+
+      for (const info of bladeVarInfo.slice(firstNewIndex)) {
+        info.definedInLine = routeLine;
+      }
+    }
+
+    return bladeVarInfo.filter(info => info.jumpTargetUri);
+  } catch (error) {
+    console.error(`Error parsing ${routePath}:`, error);
+    return [];
+  }
+};
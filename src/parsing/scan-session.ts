@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import { SESSION_PATTERNS } from './php-patterns';
+import { getLineNumber, getMethodScopeCode, joinUnionTypes } from './php-class';
+import { findClosingBracket, splitTopLevelArguments } from './php-syntax';
+import { PHPType, inferExpressionType } from './scan-controller';
+
+/**
+ * Real RedirectResponse methods that start with "with" but do not flash data
+ */
+const NON_FLASH_WITH_METHODS = [
+  'withInput',
+  'withErrors',
+  'withCookie',
+  'withCookies',
+  'withoutCookie',
+  'withHeaders',
+  'withFragment',
+  'withoutFragment',
+  'withException'
+];
+
+/**
+ * Type to store a key flashed to the session
+ */
+export type SessionFlashInfo = {
+  key: string;
+  type: PHPType;
+  source: string;
+  definedInPath: string;
+  definedInLine?: number;
+};
+
+/**
+ * Parse controller code and extract keys flashed to the session
+ */
+export const parseSessionFlashFromController = (controllerPath: string): SessionFlashInfo[] => {
+  try {
+    const phpCode = fs.readFileSync(controllerPath, 'utf-8');
+    const flashInfos: SessionFlashInfo[] = [];
+
+    const addFlash = (args: string[], offset: number) => {
+      const keyMatch = args[0]?.match(/^['"]([^'"]+)['"]$/);
+      if (keyMatch) {
+        addFlashKey(keyMatch[1], args[1] || 'null', phpCode, controllerPath, offset, flashInfos);
+      } else if (args[0]?.startsWith('[')) {
+        // with(['status' => 'Saved!', ...])
+        for (const entry of splitTopLevelArguments(args[0].slice(1, -1))) {
+          const entryMatch = entry.match(/^['"]([^'"]+)['"]\s*=>\s*([\s\S]+)$/);
+          if (entryMatch) {
+            addFlashKey(entryMatch[1], entryMatch[2], phpCode, controllerPath, offset, flashInfos);
+          }
+        }
+      }
+    };
+
+    // redirect()->route('home')->with('status', 'Saved!') and friends
+    const redirectPattern = SESSION_PATTERNS.redirectStart;
+    let redirectMatch;
+    while ((redirectMatch = redirectPattern.exec(phpCode)) !== null) {
+      let cursor = findClosingBracket(phpCode, redirectMatch.index + redirectMatch[0].length - 1) + 1;
+      let callMatch;
+
+      while (cursor > 0 && (callMatch = phpCode.slice(cursor).match(SESSION_PATTERNS.chainedCall)) !== null) {
+        const methodName = callMatch[1];
+        const callOpen = cursor + callMatch[0].length - 1;
+        const callClose = findClosingBracket(phpCode, callOpen);
+        if (callClose === -1) {
+          break;
+        }
+
+        const args = splitTopLevelArguments(phpCode.slice(callOpen + 1, callClose));
+        if (methodName === 'with') {
+          addFlash(args, callOpen);
+        } else if (/^with[A-Z]/.test(methodName) && !NON_FLASH_WITH_METHODS.includes(methodName)) {
+          // Magic withStatus($value) flashes the snake_case key
+          const keyName = methodName.slice(4).replace(/(.)(?=[A-Z])/g, '$1_').toLowerCase();
+          addFlashKey(keyName, args[0] || 'null', phpCode, controllerPath, callOpen, flashInfos);
+        }
+
+        cursor = callClose + 1;
+      }
+    }
+
+    // session()->flash('status', ...), Session::flash(...), $request->session()->now(...)
+    const flashPattern = SESSION_PATTERNS.flashCall;
+    let flashMatch;
+    while ((flashMatch = flashPattern.exec(phpCode)) !== null) {
+      const callOpen = flashMatch.index + flashMatch[0].length - 1;
+      const callClose = findClosingBracket(phpCode, callOpen);
+      if (callClose !== -1) {
+        addFlash(splitTopLevelArguments(phpCode.slice(callOpen + 1, callClose)), callOpen);
+      }
+    }
+
+    return flashInfos;
+  } catch (error) {
+    console.error(`Error parsing session data in ${controllerPath}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Add a flashed key with its inferred type
+ */
+const addFlashKey = (
+  key: string,
+  valueExpression: string,
+  phpCode: string,
+  controllerPath: string,
+  offset: number,
+  flashInfos: SessionFlashInfo[]
+) => {
+  flashInfos.push({
+    key,
+    type: inferExpressionType(getMethodScopeCode(phpCode, offset), valueExpression, key),
+    source: valueExpression,
+    definedInPath: controllerPath,
+    definedInLine: getLineNumber(phpCode, offset)
+  });
+};
+
+/**
+ * Combine the types flashed for a key across controllers; mixed as soon as one of them is unknown
+ */
+export const getSessionKeyType = (key: string, flashInfos: SessionFlashInfo[]): PHPType => {
+  return joinUnionTypes(flashInfos.filter(info => info.key === key).map(info => info.type));
+};
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { PhpAstNode, findClassMethods, getAstCallArguments, getAstChild, getAstChildren, getAstName, isAstNode, printAstExpression } from '../parsing/php-ast';
+import { parsePhp, parsePhpExpression } from '../parsing/php-parser';
+
+/**
+ * Parse a single expression and check the kind of its root node
+ */
+function parseNode(source: string, kind: string): PhpAstNode {
+	const node = parsePhpExpression(source);
+	assert.ok(isAstNode(node, kind), `expected ${kind}, got ${JSON.stringify(node)}`);
+	return node;
+}
+
+/**
+ * Get the statements of a parsed file
+ */
+function parseStatements(code: string): PhpAstNode[] {
+	return getAstChildren(parsePhp(code)).filter((statement): statement is PhpAstNode => isAstNode(statement));
+}
+
+suite('PHP parser', () => {
+	test('closures keep their parameters, use list and body', () => {
+		const closure = parseNode('function (View $view) use ($user) { $view->with(\'user\', $user); }', 'AST_CLOSURE');
+
+		const [param] = getAstChildren(getAstChild(closure, 'params') as PhpAstNode) as PhpAstNode[];
+		assert.strictEqual(getAstChild(param, 'name'), 'view');
+		assert.strictEqual(getAstName(getAstChild(param, 'type')), 'View');
+
+		const uses = getAstChildren(getAstChild(closure, 'uses') as PhpAstNode) as PhpAstNode[];
+		assert.deepStrictEqual(uses.map(use => getAstChild(use, 'name')), ['user']);
+
+		const [statement] = getAstChildren(getAstChild(closure, 'stmts') as PhpAstNode) as PhpAstNode[];
+		assert.ok(isAstNode(statement, 'AST_METHOD_CALL'));
+		assert.strictEqual(getAstName(getAstChild(statement, 'method')), 'with');
+	});
+
+	test('arrow functions return their expression', () => {
+		const arrowFunction = parseNode('fn (Post $post): string => $post?->title', 'AST_ARROW_FUNC');
+
+		const body = getAstChild(arrowFunction, 'stmts');
+		assert.ok(isAstNode(body, 'AST_RETURN'));
+		assert.ok(isAstNode(getAstChild(body, 'expr'), 'AST_NULLSAFE_PROP'));
+		assert.strictEqual(printAstExpression(getAstChild(body, 'expr')), '$post?->title');
+	});
+
+	test('match arms keep their conditions, with null for default', () => {
+		const match = parseNode('match ($status) { \'draft\', \'review\' => \'pending\', default => $status }', 'AST_MATCH');
+
+		const arms = getAstChildren(getAstChild(match, 'stmts') as PhpAstNode) as PhpAstNode[];
+		assert.strictEqual(arms.length, 2);
+		assert.deepStrictEqual(getAstChildren(getAstChild(arms[0], 'cond') as PhpAstNode), ['draft', 'review']);
+		assert.strictEqual(getAstChild(arms[0], 'expr'), 'pending');
+		assert.strictEqual(getAstChild(arms[1], 'cond'), null);
+	});
+
+	test('named arguments keep their name and value', () => {
+		const call = parseNode('view(\'posts.index\', data: [\'posts\' => $posts])', 'AST_CALL');
+
+		const [viewName, data] = getAstCallArguments(call);
+		assert.strictEqual(viewName, 'posts.index');
+		assert.ok(isAstNode(data, 'AST_NAMED_ARG'));
+		assert.strictEqual(getAstChild(data, 'name'), 'data');
+		assert.ok(isAstNode(getAstChild(data, 'expr'), 'AST_ARRAY'));
+	});
+
+	test('heredocs interpolate, nowdocs do not, and lines after them are counted', () => {
+		const [heredoc, nowdoc, after] = parseStatements([
+			'<?php',
+			'$html = <<<HTML',
+			'  <p>{$post->title}</p>',
+			'  HTML;',
+			'$raw = <<<\'TXT\'',
+			'plain $post',
+			'TXT;',
+			'$after = 1;'
+		].join('\n'));
+
+		const parts = getAstChildren(getAstChild(heredoc, 'expr') as PhpAstNode);
+		assert.strictEqual(parts[0], '<p>');
+		assert.ok(isAstNode(parts[1], 'AST_PROP'));
+		assert.strictEqual(getAstChild(nowdoc, 'expr'), 'plain $post');
+		assert.strictEqual(after.lineno, 8);
+	});
+
+	test('attributes are skipped on classes and methods', () => {
+		const ast = parsePhp([
+			'<?php',
+			'#[Layout(\'layouts.app\'), Title(\'Home\')]',
+			'class Home extends Component',
+			'{',
+			'    #[Computed(persist: true)]',
+			'    public function posts(): array { return []; }',
+			'}'
+		].join('\n'));
+
+		const [classNode] = getAstChildren(ast) as PhpAstNode[];
+		assert.ok(isAstNode(classNode, 'AST_CLASS'));
+		assert.strictEqual(getAstChild(classNode, 'name'), 'Home');
+		assert.deepStrictEqual(findClassMethods(ast).map(method => method.name), ['posts']);
+	});
+});